@@ -1,24 +1,63 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import AppNavigator from './src/navigation/AppNavigator';
-import { ensureDefaults } from './src/storage';
+import RecoveryScreen from './src/screens/RecoveryScreen';
+import StorageErrorScreen from './src/screens/StorageErrorScreen';
+import { runMigrations } from './src/migrations';
+import { loadActivityTemplates, loadCategories, loadQuarantine, loadRunningActivities, loadSettings } from './src/storage';
+import { StoreProvider } from './src/store';
 import { useTheme } from './src/useTheme';
 
-function AppContent() {
+function AppContent({ needsRecovery, onRecovered }: { needsRecovery: boolean; onRecovered: () => void }) {
   const { effectiveScheme } = useTheme();
 
   return (
     <>
       <StatusBar style={effectiveScheme === 'light' ? 'dark' : 'light'} />
-      <AppNavigator />
+      {needsRecovery ? <RecoveryScreen onDone={onRecovered} /> : <AppNavigator />}
     </>
   );
 }
 
+async function prepareStorage(): Promise<boolean> {
+  await runMigrations();
+  // Load the small keys once so damaged records are quarantined up front. Activity
+  // partitions are validated as each one is read, so startup doesn't grow with history
+  await Promise.all([loadRunningActivities(), loadActivityTemplates(), loadCategories(), loadSettings()]);
+  const quarantined = await loadQuarantine();
+  return quarantined.some((e) => !e.reviewed);
+}
+
 export default function App() {
+  const [ready, setReady] = useState(false);
+  const [needsRecovery, setNeedsRecovery] = useState(false);
+  const [storageError, setStorageError] = useState<unknown>(null);
+
+  async function prepare() {
+    try {
+      setNeedsRecovery(await prepareStorage());
+      setStorageError(null);
+    } catch (e) {
+      console.error('Failed to prepare storage:', e);
+      setStorageError(e);
+    }
+    setReady(true);
+  }
+
   useEffect(() => {
-    ensureDefaults();
+    // Screens read storage on mount, so hold rendering until data is upgraded
+    prepare();
   }, []);
 
-  return <AppContent />;
+  if (!ready) return null;
+
+  // Loading half-migrated data would quarantine records that are only in the
+  // old shape, so nothing that reads storage renders until the upgrade succeeds
+  if (storageError !== null) return <StorageErrorScreen error={storageError} onRetry={prepare} />;
+
+  return (
+    <StoreProvider>
+      <AppContent needsRecovery={needsRecovery} onRecovered={() => setNeedsRecovery(false)} />
+    </StoreProvider>
+  );
 }
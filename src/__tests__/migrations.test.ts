@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addGoalPeriods, linkActivitiesToTemplates, runMigrations, upgradeLegacyCategories } from '../migrations';
+import { KEYS, loadQuarantine, saveSchemaVersion } from '../storage';
+
+async function stored(key: string): Promise<unknown> {
+  const raw = await AsyncStorage.getItem(key);
+  return raw === null ? null : JSON.parse(raw);
+}
+
+describe('upgradeLegacyCategories', () => {
+  it('turns the old map into categories, taking goals from settings', () => {
+    const result = upgradeLegacyCategories(
+      {
+        good: { name: 'Good Time', color: '#4CAF50' },
+        bad: { name: 'Bad Time', color: '#F44336' },
+      },
+      { good: 60 },
+    );
+    expect(result).toEqual({
+      good: { id: 'good', name: 'Good Time', color: '#4CAF50', goal: 60, polarity: 'more', order: 0 },
+      bad: { id: 'bad', name: 'Bad Time', color: '#F44336', goal: 30, polarity: 'less', order: 1 },
+    });
+  });
+
+  it('orders unknown categories after the legacy ones', () => {
+    const result = upgradeLegacyCategories({ hobby: { name: 'Hobby', color: '#000' } }, undefined);
+    expect(result.hobby).toMatchObject({ goal: 0, polarity: 'more', order: 3 });
+  });
+
+  it('leaves upgraded categories alone', () => {
+    const upgraded = { id: 'good', name: 'Good', color: '#fff', goal: 10, polarity: 'more', order: 2 };
+    expect(upgradeLegacyCategories({ good: upgraded }, { good: 99 })).toEqual({ good: upgraded });
+  });
+
+  it('drops entries that are not objects', () => {
+    const result = upgradeLegacyCategories(
+      { good: { name: 'Good Time', color: '#4CAF50' }, bad: null, selfcare: 'oops', other: [1] },
+      undefined,
+    );
+    expect(Object.keys(result)).toEqual(['good']);
+  });
+});
+
+describe('linkActivitiesToTemplates', () => {
+  const templates = [
+    { id: 'reading', name: 'Reading' },
+    { id: 'reading-2', name: 'Reading' },
+  ];
+
+  it('links by name to the first matching template', () => {
+    expect(linkActivitiesToTemplates([{ id: 'a', name: 'Reading' }], templates)).toEqual([
+      { id: 'a', name: 'Reading', templateId: 'reading' },
+    ]);
+  });
+
+  it('keeps existing links, unmatched names and non-objects as they are', () => {
+    const linked = { id: 'a', name: 'Reading', templateId: 'other' };
+    const unmatched = { id: 'b', name: 'Gaming' };
+    expect(linkActivitiesToTemplates([linked, unmatched, null, 'x'], templates)).toEqual([linked, unmatched, null, 'x']);
+  });
+});
+
+describe('addGoalPeriods', () => {
+  it('makes existing goals weekly without touching ones that have a period', () => {
+    const result = addGoalPeriods({
+      good: { id: 'good', goal: 70 },
+      bad: { id: 'bad', goal: 2, goalPeriod: 'daily' },
+    });
+    expect(result).toEqual({
+      good: { id: 'good', goal: 70, goalPeriod: 'weekly' },
+      bad: { id: 'bad', goal: 2, goalPeriod: 'daily' },
+    });
+  });
+});
+
+describe('runMigrations', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    // Quarantining warns on purpose; keep the test output readable
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves goals onto categories and quarantines entries that are not objects', async () => {
+    await saveSchemaVersion(2);
+    await AsyncStorage.setItem(KEYS.settings, JSON.stringify({ bedtime: '23:00', goals: { good: 50 } }));
+    await AsyncStorage.setItem(KEYS.categories, JSON.stringify({ good: { name: 'Good Time', color: '#4CAF50' }, bad: 5 }));
+
+    await runMigrations();
+
+    expect(await stored(KEYS.settings)).toEqual({ bedtime: '23:00' });
+    expect(await stored(KEYS.categories)).toEqual({
+      good: { id: 'good', name: 'Good Time', color: '#4CAF50', goal: 50, polarity: 'more', order: 0, goalPeriod: 'weekly' },
+    });
+    expect((await loadQuarantine()).map((e) => [e.key, e.raw, e.reason])).toEqual([
+      [KEYS.categories, JSON.stringify({ bad: 5 }), 'Category is not an object'],
+    ]);
+  });
+
+  it('splits the old activities blob into day partitions', async () => {
+    await saveSchemaVersion(1);
+    const activity = {
+      id: 'a',
+      name: 'Reading',
+      categoryType: 'good',
+      startTime: '2024-03-10T12:00:00.000Z',
+      endTime: '2024-03-10T13:00:00.000Z',
+      cost: 1,
+    };
+    await AsyncStorage.setItem(KEYS.activities, JSON.stringify([activity, { broken: true }]));
+
+    await runMigrations();
+
+    const keys = await AsyncStorage.getAllKeys();
+    expect(keys).not.toContain(KEYS.activities);
+    const partitions = keys.filter((k) => k.startsWith(KEYS.activityPartitionPrefix));
+    expect(partitions).toHaveLength(1);
+    expect(await stored(partitions[0])).toEqual([activity]);
+    expect((await loadQuarantine()).map((e) => e.raw)).toEqual([JSON.stringify({ broken: true })]);
+  });
+});
@@ -0,0 +1,198 @@
+import { Activity, ActivityTemplate, Category, CategoryType, RunningActivity, UserSettings } from './types';
+import {
+  StoredData,
+  loadActivities,
+  loadActivityTemplates,
+  loadCategories,
+  loadRunningActivities,
+  loadSettings,
+  rewriteAllData,
+} from './storage';
+import { SCHEMA_VERSION, addGoalPeriods, linkActivitiesToTemplates, upgradeLegacyCategories } from './migrations';
+import { isActivity, isActivityTemplate, isCategory, isRunningActivity, isUserSettings } from './validation';
+
+export const BACKUP_FORMAT = '16dollars-backup';
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number; // storage schema the data is in, see migrations.ts
+  exportedAt: string; // ISO timestamp
+  activities: Activity[];
+  runningActivities?: RunningActivity[]; // timers going at export; missing from older backups
+  activityTemplates: ActivityTemplate[];
+  categories: Record<CategoryType, Category>;
+  settings: UserSettings | null;
+}
+
+export interface BackupDiff {
+  activities: { added: number; changed: number; unchanged: number; onlyOnDevice: number };
+  runningAdded: number; // timers in the backup not running here
+  templates: { added: number; changed: number; onlyOnDevice: number };
+  categoriesAdded: number;
+  categoriesChanged: boolean;
+  settingsChanged: boolean;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupError extends Error {}
+
+export async function createBackup(): Promise<Backup> {
+  const [activities, runningActivities, activityTemplates, categories, settings] = await Promise.all([
+    loadActivities(),
+    loadRunningActivities(),
+    loadActivityTemplates(),
+    loadCategories(),
+    loadSettings(),
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    activities,
+    runningActivities,
+    activityTemplates,
+    categories,
+    settings,
+  };
+}
+
+export function backupFilename(backup: Backup): string {
+  return `16dollars-backup-${backup.exportedAt.slice(0, 10)}.json`;
+}
+
+/** Parses and validates a backup file. Throws BackupError describing the first problem. */
+export function parseBackup(text: string): Backup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not valid JSON.');
+  }
+  if (typeof data !== 'object' || data === null) throw new BackupError('This file is not a 16dollars backup.');
+
+  const b = data as Record<string, unknown>;
+  if (b.format !== BACKUP_FORMAT) throw new BackupError('This file is not a 16dollars backup.');
+  if (typeof b.schemaVersion !== 'number') throw new BackupError('Backup is missing its version.');
+  if (b.schemaVersion > SCHEMA_VERSION) {
+    throw new BackupError('This backup was made by a newer version of 16dollars. Update the app and try again.');
+  }
+
+  // Bring older backups up to the current shape before validating
+  if (b.schemaVersion < 3 && typeof b.categories === 'object' && b.categories !== null) {
+    const settings = b.settings as Record<string, unknown> | null;
+    b.categories = upgradeLegacyCategories(b.categories as Record<string, unknown>, settings?.goals as Record<string, number> | undefined);
+    if (settings) {
+      const { goals: _goals, ...rest } = settings;
+      b.settings = rest;
+    }
+  }
+  if (b.schemaVersion < 4 && Array.isArray(b.activities) && Array.isArray(b.activityTemplates)) {
+    b.activities = linkActivitiesToTemplates(b.activities, b.activityTemplates.filter(isActivityTemplate));
+  }
+
+  if (b.schemaVersion < 5 && typeof b.categories === 'object' && b.categories !== null) {
+    b.categories = addGoalPeriods(b.categories as Record<string, unknown>);
+  }
+
+  if (!Array.isArray(b.activities)) throw new BackupError('Backup has no activity list.');
+  const badActivity = b.activities.findIndex((a) => !isActivity(a));
+  if (badActivity >= 0) throw new BackupError(`Activity #${badActivity + 1} in the backup is invalid.`);
+
+  if (b.runningActivities !== undefined) {
+    if (!Array.isArray(b.runningActivities)) throw new BackupError('Backup running timers are invalid.');
+    const badRunning = b.runningActivities.findIndex((r) => !isRunningActivity(r));
+    if (badRunning >= 0) throw new BackupError(`Running timer #${badRunning + 1} in the backup is invalid.`);
+  }
+
+  if (!Array.isArray(b.activityTemplates)) throw new BackupError('Backup has no activity templates.');
+  const badTemplate = b.activityTemplates.findIndex((t) => !isActivityTemplate(t));
+  if (badTemplate >= 0) throw new BackupError(`Activity template #${badTemplate + 1} in the backup is invalid.`);
+
+  if (typeof b.categories !== 'object' || b.categories === null || Object.keys(b.categories).length === 0 || !Object.values(b.categories).every(isCategory)) {
+    throw new BackupError('Backup categories are invalid.');
+  }
+  // Categories are looked up by key, so a key that isn't its own id would be unreachable
+  const misfiled = Object.entries(b.categories as Record<string, Category>).find(([key, c]) => c.id !== key);
+  if (misfiled) throw new BackupError(`Backup category "${misfiled[0]}" is filed under the wrong id.`);
+  if (b.settings !== null && !isUserSettings(b.settings)) throw new BackupError('Backup settings are invalid.');
+
+  return data as Backup;
+}
+
+function sameJSON(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Compares a backup against what is on the device right now. */
+export async function diffBackup(backup: Backup): Promise<BackupDiff> {
+  const current = await createBackup();
+
+  const currentActivities = new Map(current.activities.map((a) => [a.id, a]));
+  const backupActivityIds = new Set(backup.activities.map((a) => a.id));
+  const activities = { added: 0, changed: 0, unchanged: 0, onlyOnDevice: 0 };
+  for (const a of backup.activities) {
+    const existing = currentActivities.get(a.id);
+    if (!existing) activities.added++;
+    else if (sameJSON(existing, a)) activities.unchanged++;
+    else activities.changed++;
+  }
+  activities.onlyOnDevice = current.activities.filter((a) => !backupActivityIds.has(a.id)).length;
+  const runningAdded = newRunningActivities(backup, current).length;
+
+  const currentTemplates = new Map(current.activityTemplates.map((t) => [t.id, t]));
+  const backupTemplateIds = new Set(backup.activityTemplates.map((t) => t.id));
+  const templates = { added: 0, changed: 0, onlyOnDevice: 0 };
+  for (const t of backup.activityTemplates) {
+    const existing = currentTemplates.get(t.id);
+    if (!existing) templates.added++;
+    else if (!sameJSON(existing, t)) templates.changed++;
+  }
+  templates.onlyOnDevice = current.activityTemplates.filter((t) => !backupTemplateIds.has(t.id)).length;
+
+  return {
+    activities,
+    runningAdded,
+    templates,
+    categoriesAdded: Object.keys(backup.categories).filter((id) => !(id in current.categories)).length,
+    categoriesChanged: !sameJSON(current.categories, backup.categories),
+    settingsChanged: backup.settings !== null && !sameJSON(current.settings, backup.settings),
+  };
+}
+
+// Timers from the backup that aren't running here and weren't stopped and logged since
+function newRunningActivities(backup: Backup, current: Pick<Backup, 'activities' | 'runningActivities'>): RunningActivity[] {
+  const known = new Set([...current.activities, ...(current.runningActivities ?? [])].map((a) => a.id));
+  return (backup.runningActivities ?? []).filter((r) => !known.has(r.id));
+}
+
+// The backup's entries added to what's here, where their ids aren't already present
+function mergeBackup(current: StoredData, backup: Backup): StoredData {
+  const activityIds = new Set(current.activities.map((a) => a.id));
+  const templateIds = new Set(current.activityTemplates.map((t) => t.id));
+  const newCategories = Object.values(backup.categories).filter((c) => !(c.id in current.categories));
+  return {
+    activities: [...current.activities, ...backup.activities.filter((a) => !activityIds.has(a.id))],
+    runningActivities: [...current.runningActivities, ...newRunningActivities(backup, current)],
+    activityTemplates: [...current.activityTemplates, ...backup.activityTemplates.filter((t) => !templateIds.has(t.id))],
+    categories: { ...current.categories, ...Object.fromEntries(newCategories.map((c) => [c.id, c])) },
+    settings: null,
+  };
+}
+
+/**
+ * Applies a backup, all at once or not at all. `replace` overwrites
+ * everything on the device; a backup from before timers were included
+ * leaves none running. `merge` only adds activities, running timers,
+ * templates and categories whose id isn't already present, and keeps the
+ * device's own settings.
+ */
+export function restoreBackup(backup: Backup, mode: RestoreMode): Promise<void> {
+  return rewriteAllData((current) => (mode === 'merge' ? mergeBackup(current, backup) : {
+    activities: backup.activities,
+    runningActivities: backup.runningActivities ?? [],
+    activityTemplates: backup.activityTemplates,
+    categories: backup.categories,
+    settings: backup.settings,
+  }));
+}
@@ -1,22 +1,40 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Modal, View, Text, TouchableOpacity, TextInput, ScrollView, Platform } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { Activity, ActivityTemplate, Category, CategoryType, UserSettings } from '../types';
-import { durationHoursAcrossMidnight, resolveTimeReference, formatTimeReference } from '../utils/time';
+import { Activity, ActivityTemplate, Category, CategoryType, RunningActivity, UserSettings } from '../types';
+import { computeCost, currentTimeZone, nextDaySameTime, resolveTimeReference, formatTimeReference, formatTime12h } from '../utils/time';
 import { useTheme } from '../useTheme';
+import { defaultCategoryId } from '../utils/categories';
+import { normalizeTag, suggestTags } from '../utils/tags';
+import { loadKnownTags } from '../storage';
+import { OverlapChanges, OverlapResolution, findOverlaps, resolveOverlaps, settleMultitask } from '../utils/overlaps';
+import { GOAL_PERIOD_SUFFIXES, goalProgress } from '../utils/goals';
 
 interface Props {
   visible: boolean;
   onClose: () => void;
-  onSave: (activity: Activity) => void;
+  onSave: (activity: Activity, changes?: OverlapChanges) => void; // changes to other activities, from resolving overlaps
+  onSaveMany?: (activities: Activity[], changes?: OverlapChanges) => void; // logs several at once, all or nothing
   onDelete?: (id: string) => void;
+  onStart?: (running: RunningActivity) => void; // starts a live timer instead of logging a finished activity
   templates: ActivityTemplate[];
   categories: Record<CategoryType, Category>;
   initial?: Activity | null;
+  activities?: Activity[]; // already logged around baseDay, checked for overlaps on save
+  budgetTotals?: Record<string, number>; // spent per template over its budget period, for the remaining-budget hint
+  prefill?: { start: Date; end: Date } | null; // times for a new activity, e.g. from an untracked gap
   baseDay: Date; // most recent wake day for anchoring times
   settings: UserSettings;
 }
 
+// "Log All" checks its activities one by one, pausing at each overlap
+interface BatchState {
+  queue: Activity[]; // still to check
+  accepted: Activity[]; // cleared to log
+  changes: OverlapChanges; // to activities already logged
+  working: Activity[]; // logged activities as they'll end up, plus the accepted ones
+}
+
 function two(n: number) { return n < 10 ? `0${n}` : `${n}`; }
 
 function setTime(base: Date, hours: number, minutes: number): Date {
@@ -35,19 +53,31 @@ function format12h(hours: number, minutes: number): string {
   return `${h}:${two(d.getMinutes())}${ampm}`;
 }
 
-export default function ActivityModal({ visible, onClose, onSave, onDelete, templates, categories, initial, baseDay, settings }: Props) {
+export default function ActivityModal({ visible, onClose, onSave, onSaveMany, onDelete, onStart, templates, categories, initial, activities, budgetTotals, prefill, baseDay, settings }: Props) {
   const { theme } = useTheme();
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
   const [start, setStart] = useState<Date>(new Date());
   const [end, setEnd] = useState<Date>(new Date());
 
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+
+  const [conflict, setConflict] = useState<{ activity: Activity; overlaps: Activity[] } | null>(null);
+  const [batch, setBatch] = useState<BatchState | null>(null);
+  const [multitaskShare, setMultitaskShare] = useState(0.5);
+
   const [showStartPicker, setShowStartPicker] = useState(false);
   const [showEndPicker, setShowEndPicker] = useState(false);
 
   // Reset state when modal opens or initial changes
   useEffect(() => {
     if (visible) {
-      const initTemplate = initial ? templates.find(t => t.name === initial.name)?.id : templates[0]?.id;
+      // Older activities may predate templateId; matching by name is the best we can do for those
+      const initTemplate = initial
+        ? (initial.templateId ?? templates.find(t => t.name === initial.name)?.id)
+        : templates.find(t => !t.archived)?.id;
 
       let initStart: Date;
       let initEnd: Date;
@@ -56,6 +86,9 @@ export default function ActivityModal({ visible, onClose, onSave, onDelete, temp
         // Editing existing activity
         initStart = new Date(initial.startTime);
         initEnd = new Date(initial.endTime);
+      } else if (prefill) {
+        initStart = prefill.start;
+        initEnd = prefill.end;
       } else {
         // Adding new activity - use current time
         const now = new Date();
@@ -68,230 +101,529 @@ export default function ActivityModal({ visible, onClose, onSave, onDelete, temp
       setSelectedTemplateId(initTemplate || '');
       setStart(initStart);
       setEnd(initEnd);
+      setNotes(initial?.notes ?? '');
+      setTags(initial?.tags ?? []);
+      setTagInput('');
+      setConflict(null);
+      setBatch(null);
+      setMultitaskShare(0.5);
       setShowStartPicker(false);
       setShowEndPicker(false);
     }
-  }, [visible, initial, templates, baseDay]);
+  }, [visible, initial, prefill, templates, baseDay]);
 
-  const cost = useMemo(() => {
-    const c = durationHoursAcrossMidnight(start.toISOString(), end.toISOString());
-    return Math.round(c * 100) / 100;
-  }, [start, end]);
+  // Past tags for autocomplete, refreshed each time the modal opens
+  useEffect(() => {
+    if (visible) loadKnownTags().then(setKnownTags);
+  }, [visible]);
+
+  const tagSuggestions = useMemo(() => suggestTags(knownTags, tagInput, tags), [knownTags, tagInput, tags]);
+
+  function addTag(raw: string) {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setTagInput('');
+  }
+
+  const cost = useMemo(() => computeCost(start.toISOString(), end.toISOString()), [start, end]);
 
   const selectedTemplate = useMemo(() => {
     return templates.find(t => t.id === selectedTemplateId);
   }, [templates, selectedTemplateId]);
 
+  // What the selected template has used of its budget, not counting this activity
+  const budgetUsed = useMemo(() => {
+    if (!selectedTemplate?.budget) return 0;
+    const logged = budgetTotals?.[selectedTemplate.id] ?? 0;
+    return Math.max(0, logged - (initial?.templateId === selectedTemplate.id ? initial.cost : 0));
+  }, [selectedTemplate, budgetTotals, initial]);
+
   const categoryType = useMemo(() => {
-    return selectedTemplate?.categoryType ?? 'good';
-  }, [selectedTemplate]);
+    return selectedTemplate?.categoryType ?? initial?.categoryType ?? defaultCategoryId(categories);
+  }, [selectedTemplate, initial, categories]);
 
   function handleSave() {
     const id = initial?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
     // If end before start, assume next day
     let endAdj = end;
     if (endAdj < start) {
-      endAdj = new Date(endAdj.getTime() + 24 * 60 * 60 * 1000);
+      endAdj = nextDaySameTime(endAdj);
     }
 
     const activity: Activity = {
       id,
-      name: selectedTemplate?.name || 'Activity',
+      name: selectedTemplate?.name ?? initial?.name ?? 'Activity',
       categoryType,
       startTime: start.toISOString(),
       endTime: endAdj.toISOString(),
       cost,
     };
+    // Edits stay multitasked with the same partners
+    if (initial?.multitask) activity.multitask = initial.multitask;
+    submit(withDetails(activity));
+  }
+
+  // Saves straight away unless the activity overlaps others, in which case
+  // the user picks how to resolve it first
+  function submit(activity: Activity) {
+    const overlaps = findOverlaps(activity, activities ?? []);
+    if (overlaps.length > 0) {
+      setConflict({ activity, overlaps });
+      return;
+    }
+    if (!activity.multitask) {
+      onSave(activity);
+      return;
+    }
+    // Reprice from the stored shares; partners follow if the shared time moved
+    const settled = settleMultitask([activity], [], activities ?? []);
+    const partners = settled.filter((a) => a.id !== activity.id);
+    onSave(settled.find((a) => a.id === activity.id) ?? activity, { added: [], updated: partners, removed: [] });
+  }
+
+  // What a conflict is resolved against: the batch's view while logging several
+  const conflictPool = batch?.working ?? activities ?? [];
+
+  function resolveConflict(resolution: OverlapResolution) {
+    if (!conflict) return;
+    const result = resolveOverlaps(conflict.activity, conflict.overlaps, resolution, conflictPool);
+    if (!result.activity) return;
+    setConflict(null);
+    if (batch) continueBatch(mergeIntoBatch(batch, result.activity, result.changes));
+    else onSave(result.activity, result.changes);
+  }
+
+  // Trimming the new activity is pointless when existing ones cover all of it
+  const canTrimNew = useMemo(
+    () => !!conflict && resolveOverlaps(conflict.activity, conflict.overlaps, { kind: 'trimNew' }, conflictPool).activity !== null,
+    [conflict, conflictPool]
+  );
 
-    onSave(activity);
+  function cancelConflict() {
+    setConflict(null);
+    setBatch(null);
+  }
+
+  // Adds the template link, tags and notes from the form
+  function withDetails<T extends RunningActivity>(activity: T): T {
+    const result = { ...activity };
+    if (selectedTemplate) result.templateId = selectedTemplate.id;
+    // Pick up a tag that was typed but not yet confirmed
+    const pending = normalizeTag(tagInput);
+    const allTags = pending && !tags.includes(pending) ? [...tags, pending] : tags;
+    if (allTags.length > 0) result.tags = allTags;
+    if (notes.trim()) result.notes = notes.trim();
+    // Edits keep the zone the activity was first logged in
+    result.timeZone = initial?.timeZone ?? currentTimeZone();
+    return result;
+  }
+
+  function handleStart() {
+    if (!onStart || !selectedTemplate) return;
+    onStart(withDetails({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: selectedTemplate.name,
+      categoryType: selectedTemplate.categoryType,
+      startTime: new Date().toISOString(),
+    }));
   }
 
   function selectTemplate(id: string) {
     setSelectedTemplateId(id);
   }
 
-  function handleQuickActivity(activityId: string) {
+  function buildQuickActivity(activityId: string): Activity | null {
     const quickActivity = settings.quickActivities?.find(qa => qa.id === activityId);
-    if (!quickActivity) return;
+    if (!quickActivity) return null;
 
     const template = templates.find(t => t.id === quickActivity.templateId);
-    if (!template) return;
+    if (!template) return null;
 
     // Resolve times
     let startDate = resolveTimeReference(quickActivity.startTime, settings, baseDay);
     let endDate = resolveTimeReference(quickActivity.endTime, settings, baseDay);
 
-    // If end is before start, assume it crosses midnight (add 24 hours)
+    // If end is before start, assume it crosses midnight
     if (endDate < startDate) {
-      endDate = new Date(endDate.getTime() + 24 * 60 * 60 * 1000);
+      endDate = nextDaySameTime(endDate);
     }
 
-    // Create and save activity directly
-    const activity: Activity = {
+    return {
       id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       name: template.name,
       categoryType: template.categoryType,
+      templateId: template.id,
       startTime: startDate.toISOString(),
       endTime: endDate.toISOString(),
-      cost: durationHoursAcrossMidnight(startDate.toISOString(), endDate.toISOString()),
+      cost: computeCost(startDate.toISOString(), endDate.toISOString()),
+      timeZone: currentTimeZone(),
     };
+  }
 
-    onSave(activity);
+  function handleQuickActivity(activityId: string) {
+    // Create and save activity directly
+    const activity = buildQuickActivity(activityId);
+    if (activity) submit(activity);
   }
 
-  return (
-    <Modal visible={visible} animationType="slide" transparent>
-      <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' }}>
-        <View style={{ backgroundColor: theme.colors.card, padding: theme.spacing(3), borderTopLeftRadius: 20, borderTopRightRadius: 20, maxHeight: '90%' }}>
-          <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '600', marginBottom: theme.spacing(2) }}>{initial ? 'Edit Activity' : 'Add Activity'}</Text>
+  function handleLogAllQuickActivities() {
+    if (!onSaveMany) return;
+    const enabled = (settings.quickActivities || []).filter(qa => qa.enabled);
+    const built = enabled
+      .map(qa => buildQuickActivity(qa.id))
+      .filter((a): a is Activity => a !== null);
+    if (built.length === 0) return;
+    continueBatch({ queue: built, accepted: [], changes: { added: [], updated: [], removed: [] }, working: activities ?? [] });
+  }
 
-          <ScrollView style={{ maxHeight: 550 }}>
-            {/* Activity Templates - Wrapping */}
-            <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Activity</Text>
-            <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginBottom: theme.spacing(3) }}>
-              {templates.map((t) => {
-                const catColor = categories[t.categoryType]?.color ?? theme.colors.divider;
-                const isSelected = selectedTemplateId === t.id;
-                return (
-                  <TouchableOpacity
-                    key={t.id}
-                    onPress={() => selectTemplate(t.id)}
-                    style={{
-                      paddingVertical: 10,
-                      paddingHorizontal: 16,
-                      borderRadius: 20,
-                      marginRight: 8,
-                      marginBottom: 8,
-                      backgroundColor: isSelected ? catColor : theme.colors.divider
-                    }}
-                  >
-                    <Text style={{ color: isSelected ? '#FFF' : theme.colors.text, fontWeight: isSelected ? '600' : '400' }}>{t.name}</Text>
-                  </TouchableOpacity>
-                );
-              })}
-            </View>
-
-            {/* Cost Display */}
-            <View style={{ alignItems: 'center', marginBottom: theme.spacing(3), paddingVertical: theme.spacing(2) }}>
-              <View>
-                <Text style={{ color: theme.colors.muted, fontSize: 18, fontWeight: '600', marginBottom: 4 }}>Cost:</Text>
-                <Text style={{ color: theme.colors.text, fontSize: 64, fontWeight: '900', letterSpacing: -2, lineHeight: 64 }}>
-                  ${cost.toFixed(2)}
-                </Text>
-              </View>
-            </View>
-
-            {/* Horizontal Time Pickers */}
-            <View style={{ flexDirection: 'row', marginBottom: theme.spacing(2) }}>
-              {/* Start Time */}
-              <View style={{ flex: 1, marginRight: theme.spacing(1) }}>
-                <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Start</Text>
-                <TouchableOpacity onPress={() => setShowStartPicker(true)} style={{ padding: 14, backgroundColor: theme.colors.background, borderRadius: 12, borderWidth: 1, borderColor: theme.colors.divider }}>
-                  <Text style={{ color: theme.colors.text, textAlign: 'center', fontSize: 18, fontWeight: '600' }}>{format12h(start.getHours(), start.getMinutes())}</Text>
-                </TouchableOpacity>
-                {showStartPicker && (
-                  <DateTimePicker
-                    value={start}
-                    mode="time"
-                    is24Hour={false}
-                    display={Platform.OS === 'ios' ? 'spinner' : 'default'}
-                    onChange={(_e, d) => {
-                      setShowStartPicker(false);
-                      if (d) {
-                        // Preserve the baseDay date, only update the time
-                        const newStart = setTime(baseDay, d.getHours(), d.getMinutes());
-                        setStart(newStart);
-                      }
-                    }}
-                  />
-                )}
-              </View>
+  // Accepts batch activities until one overlaps something already logged or
+  // earlier in the batch; that one goes to the conflict screen. Saves once
+  // the queue is empty.
+  function continueBatch(state: BatchState) {
+    let { queue, accepted, working } = state;
+    while (queue.length > 0) {
+      const [next, ...rest] = queue;
+      const overlaps = findOverlaps(next, working);
+      if (overlaps.length > 0) {
+        setBatch({ ...state, queue: rest, accepted, working });
+        setConflict({ activity: next, overlaps });
+        return;
+      }
+      accepted = [...accepted, next];
+      working = [...working, next];
+      queue = rest;
+    }
+    setBatch(null);
+    if (accepted.length > 0) onSaveMany?.(accepted, state.changes);
+  }
 
-              {/* End Time */}
-              <View style={{ flex: 1, marginLeft: theme.spacing(1) }}>
-                <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>End</Text>
-                <TouchableOpacity onPress={() => setShowEndPicker(true)} style={{ padding: 14, backgroundColor: theme.colors.background, borderRadius: 12, borderWidth: 1, borderColor: theme.colors.divider }}>
-                  <Text style={{ color: theme.colors.text, textAlign: 'center', fontSize: 18, fontWeight: '600' }}>{format12h(end.getHours(), end.getMinutes())}</Text>
+  // Folds one resolved conflict into the batch. Changes to batch activities
+  // stay in `accepted`; changes to logged ones go to `changes`.
+  function mergeIntoBatch(state: BatchState, activity: Activity, changes: OverlapChanges): BatchState {
+    const replace = (list: Activity[], a: Activity) => (list.some((x) => x.id === a.id) ? list.map((x) => (x.id === a.id ? a : x)) : [...list, a]);
+    let accepted = [...state.accepted, activity, ...changes.added];
+    let { updated, removed } = state.changes;
+    for (const a of changes.updated) {
+      if (accepted.some((x) => x.id === a.id)) accepted = replace(accepted, a);
+      else updated = replace(updated, a);
+    }
+    for (const a of changes.removed) {
+      if (accepted.some((x) => x.id === a.id)) accepted = accepted.filter((x) => x.id !== a.id);
+      else {
+        updated = updated.filter((x) => x.id !== a.id);
+        removed = [...removed, a];
+      }
+    }
+    const removedIds = new Set(changes.removed.map((a) => a.id));
+    let working = state.working.filter((x) => !removedIds.has(x.id));
+    for (const a of [activity, ...changes.updated, ...changes.added]) working = replace(working, a);
+    return { queue: state.queue, accepted, changes: { added: state.changes.added, updated, removed }, working };
+  }
+
+  function renderBudget() {
+    const budget = selectedTemplate?.budget;
+    if (!budget) return null;
+    const limit = `$${budget.amount.toFixed(2)}${GOAL_PERIOD_SUFFIXES[budget.period]}`;
+    const before = goalProgress(budget.polarity, budgetUsed, budget.amount);
+    const after = goalProgress(budget.polarity, budgetUsed + cost, budget.amount);
+    let line: string;
+    let color = theme.colors.muted;
+    if (budget.polarity === 'less') {
+      line = `$${Math.max(0, budget.amount - budgetUsed).toFixed(2)} left of ${limit}`;
+      if (before.state === 'near') color = theme.colors.yellow;
+      if (after.state === 'over') {
+        line += ` · this puts you $${(budgetUsed + cost - budget.amount).toFixed(2)} over`;
+        color = theme.colors.red;
+      }
+    } else {
+      line = `$${budgetUsed.toFixed(2)} of ${limit} so far`;
+      if (after.state === 'met') {
+        line += before.state === 'met' ? ' · already reached' : ' · this reaches it';
+        color = theme.colors.green;
+      }
+    }
+    return (
+      <View style={{ marginTop: -theme.spacing(2), marginBottom: theme.spacing(2) }}>
+        <Text style={{ color, fontSize: 13, fontWeight: '600' }}>
+          {budget.polarity === 'less' ? 'Budget' : 'Goal'}: {line}
+        </Text>
+      </View>
+    );
+  }
+
+  function renderConflict() {
+    if (!conflict) return null;
+    const option = (label: string, detail: string, onPress: () => void, disabled = false) => (
+      <TouchableOpacity onPress={onPress} disabled={disabled} style={{ padding: 14, borderRadius: 12, backgroundColor: theme.colors.background, borderWidth: 1, borderColor: theme.colors.divider, marginBottom: theme.spacing(1), opacity: disabled ? 0.4 : 1 }}>
+        <Text style={{ color: theme.colors.text, fontWeight: '700' }}>{label}</Text>
+        <Text style={{ color: theme.colors.muted, fontSize: 12, marginTop: 2 }}>{detail}</Text>
+      </TouchableOpacity>
+    );
+
+    return (
+      <ScrollView style={{ maxHeight: 550 }}>
+        <Text style={{ color: theme.colors.text, fontSize: 16, fontWeight: '600', marginBottom: 8 }}>
+          {conflict.activity.name} overlaps with:
+        </Text>
+        {conflict.overlaps.map((o) => (
+          <View key={o.id} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 6 }}>
+            <View style={{ width: 10, height: 10, borderRadius: 5, marginRight: 8, backgroundColor: categories[o.categoryType]?.color ?? theme.colors.divider }} />
+            <Text style={{ color: theme.colors.text }}>
+              {o.name} · {formatTime12h(new Date(o.startTime), o.timeZone)} - {formatTime12h(new Date(o.endTime), o.timeZone)}
+            </Text>
+          </View>
+        ))}
+
+        <View style={{ marginTop: theme.spacing(2) }}>
+          {option('Trim the existing entry', `Shorten what's already logged so ${conflict.activity.name} keeps its full time.`, () => resolveConflict({ kind: 'trimExisting' }))}
+          {option('Trim this one', `Shorten ${conflict.activity.name} to the time that's still free.`, () => resolveConflict({ kind: 'trimNew' }), !canTrimNew)}
+          {option('Split the time', 'Each side keeps half of the overlapping minutes.', () => resolveConflict({ kind: 'split' }))}
+        </View>
+
+        {/* Multitasking keeps both as logged and divides the shared cost */}
+        <View style={{ padding: 14, borderRadius: 12, backgroundColor: theme.colors.background, borderWidth: 1, borderColor: theme.colors.divider }}>
+          <Text style={{ color: theme.colors.text, fontWeight: '700' }}>I was multitasking</Text>
+          <Text style={{ color: theme.colors.muted, fontSize: 12, marginTop: 2, marginBottom: 8 }}>
+            Keep both. Share of the overlapping cost charged to {conflict.activity.name}:
+          </Text>
+          <View style={{ flexDirection: 'row', marginBottom: 8 }}>
+            {[0.25, 0.5, 0.75, 1].map((share) => {
+              const isSelected = multitaskShare === share;
+              return (
+                <TouchableOpacity key={share} onPress={() => setMultitaskShare(share)} style={{ flex: 1, paddingVertical: 8, marginRight: 6, borderRadius: 8, alignItems: 'center', backgroundColor: isSelected ? theme.colors.accent : theme.colors.divider }}>
+                  <Text style={{ color: isSelected ? theme.colors.accentText : theme.colors.text, fontWeight: isSelected ? '700' : '400' }}>{share * 100}%</Text>
                 </TouchableOpacity>
-                {showEndPicker && (
-                  <DateTimePicker
-                    value={end}
-                    mode="time"
-                    is24Hour={false}
-                    display={Platform.OS === 'ios' ? 'spinner' : 'default'}
-                    onChange={(_e, d) => {
-                      setShowEndPicker(false);
-                      if (d) {
-                        // Preserve the baseDay date, only update the time
-                        const newEnd = setTime(baseDay, d.getHours(), d.getMinutes());
-                        setEnd(newEnd);
-                      }
-                    }}
-                  />
-                )}
-              </View>
-            </View>
+              );
+            })}
+          </View>
+          <TouchableOpacity onPress={() => resolveConflict({ kind: 'multitask', share: multitaskShare })} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.accent }}>
+            <Text style={{ color: theme.colors.accentText, fontWeight: '700', textAlign: 'center' }}>Save as Multitasking</Text>
+          </TouchableOpacity>
+        </View>
 
-            {/* Quick Activities - Only show when adding new */}
-            {!initial && settings.quickActivities && settings.quickActivities.filter(qa => qa.enabled).length > 0 && (
-              <View style={{ marginTop: theme.spacing(3) }}>
-                <Text style={{ color: theme.colors.muted, marginBottom: 12, fontSize: 14, fontWeight: '600' }}>Quick Activities</Text>
-                <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
-                  {settings.quickActivities.filter(qa => qa.enabled).map((quickActivity) => {
-                    const template = templates.find(t => t.id === quickActivity.templateId);
-                    if (!template) return null;
+        <TouchableOpacity onPress={cancelConflict} style={{ padding: 14, borderRadius: 12, backgroundColor: theme.colors.divider, marginTop: theme.spacing(2) }}>
+          <Text style={{ color: theme.colors.text, textAlign: 'center', fontWeight: '600' }}>{batch ? 'Cancel Log All' : 'Back'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  }
 
-                    const catColor = categories[template.categoryType]?.color ?? theme.colors.divider;
-                    const startTimeStr = formatTimeReference(quickActivity.startTime, settings);
-                    const endTimeStr = formatTimeReference(quickActivity.endTime, settings);
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' }}>
+        <View style={{ backgroundColor: theme.colors.card, padding: theme.spacing(3), borderTopLeftRadius: 20, borderTopRightRadius: 20, maxHeight: '90%' }}>
+          <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '600', marginBottom: theme.spacing(2) }}>{initial ? 'Edit Activity' : 'Add Activity'}</Text>
 
+          {conflict ? renderConflict() : (
+            <>
+              <ScrollView style={{ maxHeight: 550 }}>
+                {/* Activity Templates - Wrapping */}
+                <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Activity</Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginBottom: theme.spacing(3) }}>
+                  {templates.filter((t) => !t.archived || t.id === selectedTemplateId).map((t) => {
+                    const catColor = categories[t.categoryType]?.color ?? theme.colors.divider;
+                    const isSelected = selectedTemplateId === t.id;
                     return (
                       <TouchableOpacity
-                        key={quickActivity.id}
-                        onPress={() => handleQuickActivity(quickActivity.id)}
+                        key={t.id}
+                        onPress={() => selectTemplate(t.id)}
                         style={{
-                          flex: 1,
-                          backgroundColor: catColor,
-                          borderRadius: 16,
-                          padding: theme.spacing(1.5),
-                          marginHorizontal: 4,
-                          alignItems: 'center',
+                          paddingVertical: 10,
+                          paddingHorizontal: 16,
+                          borderRadius: 20,
+                          marginRight: 8,
+                          marginBottom: 8,
+                          backgroundColor: isSelected ? catColor : theme.colors.divider
                         }}
                       >
-                        <Text style={{ color: '#FFF', fontWeight: '700', fontSize: 14, marginBottom: 6 }}>
-                          {template.name}
-                        </Text>
-                        <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 10, textAlign: 'center' }}>
-                          {startTimeStr}
-                        </Text>
-                        <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 10, textAlign: 'center' }}>
-                          {endTimeStr}
-                        </Text>
+                        <Text style={{ color: isSelected ? '#FFF' : theme.colors.text, fontWeight: isSelected ? '600' : '400' }}>{t.name}</Text>
                       </TouchableOpacity>
                     );
                   })}
                 </View>
+
+                {renderBudget()}
+
+                {/* Cost Display */}
+                <View style={{ alignItems: 'center', marginBottom: theme.spacing(3), paddingVertical: theme.spacing(2) }}>
+                  <View>
+                    <Text style={{ color: theme.colors.muted, fontSize: 18, fontWeight: '600', marginBottom: 4 }}>Cost:</Text>
+                    <Text style={{ color: theme.colors.text, fontSize: 64, fontWeight: '900', letterSpacing: -2, lineHeight: 64 }}>
+                      ${cost.toFixed(2)}
+                    </Text>
+                  </View>
+                </View>
+
+                {/* Horizontal Time Pickers */}
+                <View style={{ flexDirection: 'row', marginBottom: theme.spacing(2) }}>
+                  {/* Start Time */}
+                  <View style={{ flex: 1, marginRight: theme.spacing(1) }}>
+                    <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Start</Text>
+                    <TouchableOpacity onPress={() => setShowStartPicker(true)} style={{ padding: 14, backgroundColor: theme.colors.background, borderRadius: 12, borderWidth: 1, borderColor: theme.colors.divider }}>
+                      <Text style={{ color: theme.colors.text, textAlign: 'center', fontSize: 18, fontWeight: '600' }}>{format12h(start.getHours(), start.getMinutes())}</Text>
+                    </TouchableOpacity>
+                    {showStartPicker && (
+                      <DateTimePicker
+                        value={start}
+                        mode="time"
+                        is24Hour={false}
+                        display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                        onChange={(_e, d) => {
+                          setShowStartPicker(false);
+                          if (d) {
+                            // Preserve the baseDay date, only update the time
+                            const newStart = setTime(baseDay, d.getHours(), d.getMinutes());
+                            setStart(newStart);
+                          }
+                        }}
+                      />
+                    )}
+                  </View>
+
+                  {/* End Time */}
+                  <View style={{ flex: 1, marginLeft: theme.spacing(1) }}>
+                    <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>End</Text>
+                    <TouchableOpacity onPress={() => setShowEndPicker(true)} style={{ padding: 14, backgroundColor: theme.colors.background, borderRadius: 12, borderWidth: 1, borderColor: theme.colors.divider }}>
+                      <Text style={{ color: theme.colors.text, textAlign: 'center', fontSize: 18, fontWeight: '600' }}>{format12h(end.getHours(), end.getMinutes())}</Text>
+                    </TouchableOpacity>
+                    {showEndPicker && (
+                      <DateTimePicker
+                        value={end}
+                        mode="time"
+                        is24Hour={false}
+                        display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                        onChange={(_e, d) => {
+                          setShowEndPicker(false);
+                          if (d) {
+                            // Preserve the baseDay date, only update the time
+                            const newEnd = setTime(baseDay, d.getHours(), d.getMinutes());
+                            setEnd(newEnd);
+                          }
+                        }}
+                      />
+                    )}
+                  </View>
+                </View>
+
+                {/* Tags */}
+                <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Tags</Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', marginBottom: 8 }}>
+                  {tags.map((tag) => (
+                    <TouchableOpacity key={tag} onPress={() => setTags(tags.filter((t) => t !== tag))} style={{ paddingVertical: 6, paddingHorizontal: 12, borderRadius: 14, marginRight: 6, marginBottom: 6, backgroundColor: theme.colors.accent }}>
+                      <Text style={{ color: theme.colors.accentText, fontSize: 13, fontWeight: '600' }}>#{tag} ×</Text>
+                    </TouchableOpacity>
+                  ))}
+                  <TextInput
+                    value={tagInput}
+                    onChangeText={(text) => {
+                      // Typing a comma confirms the tag
+                      if (text.endsWith(',')) addTag(text.slice(0, -1));
+                      else setTagInput(text);
+                    }}
+                    onSubmitEditing={() => addTag(tagInput)}
+                    placeholder="Add tag"
+                    placeholderTextColor={theme.colors.muted}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    style={{ minWidth: 100, flexGrow: 1, color: theme.colors.text, padding: 8, borderRadius: 8, borderWidth: 1, borderColor: theme.colors.divider, marginBottom: 6 }}
+                  />
+                </View>
+                {tagSuggestions.length > 0 && (
+                  <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginBottom: 8 }}>
+                    {tagSuggestions.map((tag) => (
+                      <TouchableOpacity key={tag} onPress={() => addTag(tag)} style={{ paddingVertical: 4, paddingHorizontal: 10, borderRadius: 12, marginRight: 6, marginBottom: 6, backgroundColor: theme.colors.divider }}>
+                        <Text style={{ color: theme.colors.text, fontSize: 12 }}>#{tag}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                {/* Notes */}
+                <Text style={{ color: theme.colors.muted, marginTop: theme.spacing(1), marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Notes</Text>
+                <TextInput
+                  value={notes}
+                  onChangeText={setNotes}
+                  placeholder="What did you read, who did you meet…"
+                  placeholderTextColor={theme.colors.muted}
+                  multiline
+                  style={{ minHeight: 72, color: theme.colors.text, backgroundColor: theme.colors.background, padding: 12, borderRadius: 12, borderWidth: 1, borderColor: theme.colors.divider, textAlignVertical: 'top' }}
+                />
+
+                {/* Quick Activities - Only show when adding new */}
+                {!initial && settings.quickActivities && settings.quickActivities.filter(qa => qa.enabled).length > 0 && (
+                  <View style={{ marginTop: theme.spacing(3) }}>
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+                      <Text style={{ color: theme.colors.muted, fontSize: 14, fontWeight: '600' }}>Quick Activities</Text>
+                      {onSaveMany && (
+                        <TouchableOpacity onPress={handleLogAllQuickActivities} style={{ paddingVertical: 4, paddingHorizontal: 10, borderRadius: 12, backgroundColor: theme.colors.divider }}>
+                          <Text style={{ color: theme.colors.text, fontSize: 12, fontWeight: '600' }}>Log All</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                      {settings.quickActivities.filter(qa => qa.enabled).map((quickActivity) => {
+                        const template = templates.find(t => t.id === quickActivity.templateId);
+                        if (!template) return null;
+
+                        const catColor = categories[template.categoryType]?.color ?? theme.colors.divider;
+                        const startTimeStr = formatTimeReference(quickActivity.startTime, settings);
+                        const endTimeStr = formatTimeReference(quickActivity.endTime, settings);
+
+                        return (
+                          <TouchableOpacity
+                            key={quickActivity.id}
+                            onPress={() => handleQuickActivity(quickActivity.id)}
+                            style={{
+                              flex: 1,
+                              backgroundColor: catColor,
+                              borderRadius: 16,
+                              padding: theme.spacing(1.5),
+                              marginHorizontal: 4,
+                              alignItems: 'center',
+                            }}
+                          >
+                            <Text style={{ color: '#FFF', fontWeight: '700', fontSize: 14, marginBottom: 6 }}>
+                              {template.name}
+                            </Text>
+                            <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 10, textAlign: 'center' }}>
+                              {startTimeStr}
+                            </Text>
+                            <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 10, textAlign: 'center' }}>
+                              {endTimeStr}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                )}
+              </ScrollView>
+
+              {/* Action Buttons */}
+              <View style={{ marginTop: theme.spacing(3) }}>
+                <View style={{ flexDirection: 'row', marginBottom: theme.spacing(1) }}>
+                  <TouchableOpacity onPress={onClose} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.divider, marginRight: theme.spacing(1) }}>
+                    <Text style={{ color: theme.colors.text, textAlign: 'center', fontWeight: '600' }}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={handleSave} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.accent, marginLeft: theme.spacing(1) }}>
+                    <Text style={{ color: theme.colors.accentText, fontWeight: '700', textAlign: 'center' }}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {!initial && onStart && (
+                  <TouchableOpacity onPress={handleStart} disabled={!selectedTemplate} style={{ padding: 14, borderRadius: 12, backgroundColor: theme.colors.green, opacity: selectedTemplate ? 1 : 0.5 }}>
+                    <Text style={{ color: '#FFF', textAlign: 'center', fontWeight: '700' }}>▶ Start {selectedTemplate?.name ?? 'Timer'} Now</Text>
+                  </TouchableOpacity>
+                )}
+
+                {initial && onDelete && (
+                  <TouchableOpacity onPress={() => onDelete(initial.id)} style={{ padding: 14, borderRadius: 12, backgroundColor: theme.colors.red }}>
+                    <Text style={{ color: '#FFF', textAlign: 'center', fontWeight: '600' }}>Delete Activity</Text>
+                  </TouchableOpacity>
+                )}
               </View>
-            )}
-          </ScrollView>
-
-          {/* Action Buttons */}
-          <View style={{ marginTop: theme.spacing(3) }}>
-            <View style={{ flexDirection: 'row', marginBottom: theme.spacing(1) }}>
-              <TouchableOpacity onPress={onClose} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.divider, marginRight: theme.spacing(1) }}>
-                <Text style={{ color: theme.colors.text, textAlign: 'center', fontWeight: '600' }}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity onPress={handleSave} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.accent, marginLeft: theme.spacing(1) }}>
-                <Text style={{ color: theme.colors.accentText, fontWeight: '700', textAlign: 'center' }}>Save</Text>
-              </TouchableOpacity>
-            </View>
-
-            {initial && onDelete && (
-              <TouchableOpacity onPress={() => onDelete(initial.id)} style={{ padding: 14, borderRadius: 12, backgroundColor: theme.colors.red }}>
-                <Text style={{ color: '#FFF', textAlign: 'center', fontWeight: '600' }}>Delete Activity</Text>
-              </TouchableOpacity>
-            )}
-          </View>
+            </>
+          )}
         </View>
       </View>
     </Modal>
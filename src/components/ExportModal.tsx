@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, Platform, Alert } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Category, CategoryType, UserSettings } from '../types';
+import { loadActivitiesInRange } from '../storage';
+import { activitiesToCSV, dailyTotalsToCSV, formatLocalDate } from '../utils/csv';
+import { activitiesToICS } from '../utils/ical';
+import { getDayWindowForDate } from '../utils/time';
+import { shareTextFile } from '../utils/files';
+import { useTheme } from '../useTheme';
+
+type ExportMode = 'activities' | 'daily' | 'calendar';
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  categories: Record<CategoryType, Category>;
+  settings: UserSettings;
+}
+
+function daysAgo(n: number): Date {
+  const d = new Date();
+  d.setDate(d.getDate() - n);
+  return d;
+}
+
+export default function ExportModal({ visible, onClose, categories, settings }: Props) {
+  const { theme } = useTheme();
+  const [from, setFrom] = useState<Date>(daysAgo(29));
+  const [to, setTo] = useState<Date>(new Date());
+  const [mode, setMode] = useState<ExportMode>('activities');
+  const [picking, setPicking] = useState<'from' | 'to' | null>(null);
+
+  useEffect(() => {
+    if (visible) setPicking(null);
+  }, [visible]);
+
+  async function handleExport() {
+    const start = getDayWindowForDate(from, settings).start;
+    const end = getDayWindowForDate(to, settings).end;
+    const range = `${formatLocalDate(from)}-to-${formatLocalDate(to)}`;
+    try {
+      const activities = await loadActivitiesInRange(start, end);
+      if (mode === 'calendar') {
+        await shareTextFile(`16dollars-${range}.ics`, activitiesToICS(activities, categories), 'text/calendar');
+      } else if (mode === 'daily') {
+        await shareTextFile(`16dollars-daily-totals-${range}.csv`, dailyTotalsToCSV(activities, categories, settings, from, to), 'text/csv');
+      } else {
+        await shareTextFile(`16dollars-activities-${range}.csv`, activitiesToCSV(activities, categories), 'text/csv');
+      }
+    } catch (e) {
+      Alert.alert('Could not export', e instanceof Error ? e.message : String(e));
+      return;
+    }
+    onClose();
+  }
+
+  function dateButton(label: string, value: Date, field: 'from' | 'to') {
+    return (
+      <View style={{ flex: 1, marginHorizontal: theme.spacing(0.5) }}>
+        <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>{label}</Text>
+        <TouchableOpacity onPress={() => setPicking(field)} style={{ padding: 14, backgroundColor: theme.colors.background, borderRadius: 12, borderWidth: 1, borderColor: theme.colors.divider }}>
+          <Text style={{ color: theme.colors.text, textAlign: 'center', fontSize: 16, fontWeight: '600' }}>{value.toLocaleDateString()}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' }}>
+        <View style={{ backgroundColor: theme.colors.card, padding: theme.spacing(3), borderTopLeftRadius: 20, borderTopRightRadius: 20 }}>
+          <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '600', marginBottom: theme.spacing(2) }}>Export</Text>
+
+          {/* Mode Toggle */}
+          <View style={{ flexDirection: 'row', backgroundColor: theme.colors.background, borderRadius: 12, padding: 4, marginBottom: theme.spacing(2) }}>
+            {([['activities', 'CSV'], ['daily', 'Daily CSV'], ['calendar', 'Calendar']] as const).map(([value, label]) => {
+              const isSelected = mode === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  onPress={() => setMode(value)}
+                  style={{ flex: 1, paddingVertical: 8, borderRadius: 8, backgroundColor: isSelected ? theme.colors.accent : 'transparent', alignItems: 'center' }}
+                >
+                  <Text style={{ color: isSelected ? theme.colors.accentText : theme.colors.text, fontWeight: isSelected ? '600' : '400' }}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={{ flexDirection: 'row', marginBottom: theme.spacing(3), marginHorizontal: -theme.spacing(0.5) }}>
+            {dateButton('From', from, 'from')}
+            {dateButton('To', to, 'to')}
+          </View>
+          {picking && (
+            <DateTimePicker
+              value={picking === 'from' ? from : to}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={(_e, d) => {
+                const field = picking;
+                setPicking(null);
+                if (!d) return;
+                if (field === 'from') {
+                  setFrom(d);
+                  if (d > to) setTo(d);
+                } else {
+                  setTo(d);
+                  if (d < from) setFrom(d);
+                }
+              }}
+            />
+          )}
+
+          <View style={{ flexDirection: 'row', marginBottom: theme.spacing(2) }}>
+            <TouchableOpacity onPress={onClose} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.divider, marginRight: theme.spacing(1) }}>
+              <Text style={{ color: theme.colors.text, textAlign: 'center', fontWeight: '600' }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleExport} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.accent, marginLeft: theme.spacing(1) }}>
+              <Text style={{ color: theme.colors.accentText, fontWeight: '700', textAlign: 'center' }}>Export</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Modal, View, Text, TouchableOpacity } from 'react-native';
+import { Backup, BackupDiff, RestoreMode } from '../backup';
+import { useTheme } from '../useTheme';
+
+interface Props {
+  backup: Backup | null;
+  diff: BackupDiff | null;
+  onClose: () => void;
+  onRestore: (mode: RestoreMode) => void;
+}
+
+export default function RestoreBackupModal({ backup, diff, onClose, onRestore }: Props) {
+  const { theme } = useTheme();
+
+  function row(label: string, value: string) {
+    return (
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 6, borderBottomWidth: 1, borderBottomColor: theme.colors.divider }}>
+        <Text style={{ color: theme.colors.text }}>{label}</Text>
+        <Text style={{ color: theme.colors.muted }}>{value}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <Modal visible={!!backup && !!diff} animationType="slide" transparent>
+      <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' }}>
+        <View style={{ backgroundColor: theme.colors.card, padding: theme.spacing(3), borderTopLeftRadius: 20, borderTopRightRadius: 20 }}>
+          <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '600', marginBottom: 4 }}>Restore Backup</Text>
+          {backup && (
+            <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(2) }}>
+              Exported {new Date(backup.exportedAt).toLocaleString()} · {backup.activities.length} activities
+            </Text>
+          )}
+
+          {diff && (
+            <View style={{ marginBottom: theme.spacing(2) }}>
+              {row('New activities', `${diff.activities.added}`)}
+              {row('Activities that differ', `${diff.activities.changed}`)}
+              {row('Activities already here', `${diff.activities.unchanged}`)}
+              {row('Activities only on this device', `${diff.activities.onlyOnDevice}`)}
+              {row('New running timers', `${diff.runningAdded}`)}
+              {row('New activity templates', `${diff.templates.added}`)}
+              {row('Templates that differ', `${diff.templates.changed}`)}
+              {row('New categories', `${diff.categoriesAdded}`)}
+              {row('Categories', diff.categoriesChanged ? 'Different' : 'Same')}
+              {row('Settings', diff.settingsChanged ? 'Different' : 'Same')}
+            </View>
+          )}
+
+          <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(2), lineHeight: 18 }}>
+            Merge adds only the new activities, timers, templates and categories and keeps everything on this device.
+            Replace makes this device match the backup exactly.
+          </Text>
+
+          <View style={{ flexDirection: 'row', marginBottom: theme.spacing(1) }}>
+            <TouchableOpacity onPress={() => onRestore('merge')} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.accent, marginRight: theme.spacing(1) }}>
+              <Text style={{ color: theme.colors.accentText, fontWeight: '700', textAlign: 'center' }}>Merge</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onRestore('replace')} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.red, marginLeft: theme.spacing(1) }}>
+              <Text style={{ color: '#FFF', fontWeight: '700', textAlign: 'center' }}>Replace</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity onPress={onClose} style={{ padding: 14, borderRadius: 12, backgroundColor: theme.colors.divider, marginBottom: theme.spacing(2) }}>
+            <Text style={{ color: theme.colors.text, textAlign: 'center', fontWeight: '600' }}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
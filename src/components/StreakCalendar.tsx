@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { GoalPeriod } from '../types';
+import { useTheme } from '../useTheme';
+import { Streak, StreakPeriod } from '../utils/streaks';
+
+interface Props {
+  streak: Streak;
+  period: GoalPeriod;
+}
+
+function periodLabel(p: StreakPeriod, period: GoalPeriod): string {
+  // Windows start the evening before, so label by the day they end on
+  const d = new Date(p.end.getTime() - 1);
+  if (period === 'monthly') return d.toLocaleDateString(undefined, { month: 'short' });
+  if (period === 'weekly') return `${d.getMonth() + 1}/${d.getDate()}`;
+  return `${d.getDate()}`;
+}
+
+/** Kept and missed periods as a grid, oldest first. Daily goals wrap a week per row. */
+export default function StreakCalendar({ streak, period }: Props) {
+  const { theme } = useTheme();
+  const columns = period === 'daily' ? 7 : 6;
+
+  function cellColor(p: StreakPeriod): string {
+    switch (p.state) {
+      case 'kept': return theme.colors.green;
+      case 'missed': return theme.colors.red;
+      default: return theme.colors.divider;
+    }
+  }
+
+  return (
+    <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+      {streak.periods.map((p) => (
+        <View key={p.start.toISOString()} style={{ width: `${100 / columns}%`, padding: 2 }}>
+          <View
+            style={{
+              height: 28,
+              borderRadius: 6,
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: cellColor(p),
+              borderWidth: p.state === 'pending' ? 2 : 0,
+              borderColor: theme.colors.accent,
+              opacity: p.state === 'untracked' ? 0.5 : 1,
+            }}
+          >
+            <Text style={{ color: p.state === 'kept' || p.state === 'missed' ? '#FFF' : theme.colors.muted, fontSize: 11, fontWeight: '600' }}>
+              {periodLabel(p, period)}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
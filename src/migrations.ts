@@ -0,0 +1,245 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KEYS, activityPartitionKey, loadQuarantine, loadSchemaVersion, quarantine, readStoredJSON, saveSchemaVersion } from './storage';
+import { isActivity } from './validation';
+
+/**
+ * A single step in the storage schema history. Steps run in ascending
+ * `version` order and each one upgrades data from `version - 1` to `version`.
+ *
+ * Migrations read and write raw JSON rather than going through the typed
+ * load/save helpers, because those always describe the *latest* shape.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  migrate: () => Promise<void>;
+}
+
+async function readJSON<T>(key: string): Promise<T | null> {
+  return (await readStoredJSON(key)) as T | null;
+}
+
+async function writeJSON(key: string, value: unknown): Promise<void> {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+}
+
+function idFromName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+const DEFAULT_QUICK_ACTIVITIES = [
+  { id: 'sleep', templateId: 'sleep', startTime: { type: 'bedtime' }, endTime: { type: 'wakeTime' }, enabled: true },
+  { id: 'bath', templateId: 'bath', startTime: { type: 'wakeTime' }, endTime: { type: 'offset', minutes: 30 }, enabled: true },
+  { id: 'work', templateId: 'work', startTime: { type: 'offset', minutes: 60 }, endTime: { type: 'offset', minutes: 540 }, enabled: true },
+];
+
+const LEGACY_CATEGORY_ORDER = ['good', 'bad', 'selfcare'];
+const LEGACY_GOALS: Record<string, number> = { good: 70, bad: 30, selfcare: 70 };
+
+function isLegacyCategory(x: unknown): x is { name: string; color: string } {
+  return typeof x === 'object' && x !== null && !Array.isArray(x);
+}
+
+/**
+ * v2 → v3 category shape: the fixed good/bad/selfcare map plus
+ * `settings.goals` become self-describing categories. Entries that already
+ * have an id are left alone, and ones that aren't objects at all are
+ * dropped. Also used to upgrade old backup files.
+ */
+export function upgradeLegacyCategories(
+  categories: Record<string, unknown>,
+  goals: Record<string, number> | undefined,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  Object.entries(categories).forEach(([id, value], idx) => {
+    if (!isLegacyCategory(value)) return;
+    const category = value;
+    if ('id' in category) {
+      result[id] = category;
+      return;
+    }
+    const legacyIdx = LEGACY_CATEGORY_ORDER.indexOf(id);
+    result[id] = {
+      id,
+      name: category.name,
+      color: category.color,
+      goal: goals?.[id] ?? LEGACY_GOALS[id] ?? 0,
+      polarity: id === 'bad' ? 'less' : 'more',
+      order: legacyIdx >= 0 ? legacyIdx : LEGACY_CATEGORY_ORDER.length + idx,
+    };
+  });
+  return result;
+}
+
+/**
+ * v3 → v4: activities used to find their template by name. Gives each one
+ * the id of the template it currently matches; unmatched ones are left as
+ * they are. Also used to upgrade old backup files.
+ */
+export function linkActivitiesToTemplates(activities: unknown[], templates: { id: string; name: string }[]): unknown[] {
+  const byName = new Map<string, string>();
+  for (const t of templates) if (!byName.has(t.name)) byName.set(t.name, t.id);
+  return activities.map((a) => {
+    if (typeof a !== 'object' || a === null) return a;
+    const activity = a as Record<string, unknown>;
+    if (activity.templateId !== undefined || typeof activity.name !== 'string') return a;
+    const templateId = byName.get(activity.name);
+    return templateId ? { ...activity, templateId } : a;
+  });
+}
+
+/**
+ * v4 → v5: categories gain a goal period. The old goals were always read as
+ * weekly targets, so that's what they keep. Also used to upgrade old backup files.
+ */
+export function addGoalPeriods(categories: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [id, category] of Object.entries(categories)) {
+    const isObj = typeof category === 'object' && category !== null;
+    result[id] = isObj && !('goalPeriod' in category) ? { ...category, goalPeriod: 'weekly' } : category;
+  }
+  return result;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // Everything the old ensureDefaults() used to patch on every launch
+    version: 1,
+    name: 'baseline',
+    migrate: async () => {
+      const settings = await readJSON<Record<string, unknown>>(KEYS.settings);
+      await writeJSON(KEYS.settings, {
+        bedtime: '23:00',
+        wakeTime: '07:00',
+        themeMode: 'system',
+        ...settings,
+        goals: settings?.goals ?? { good: 70, bad: 30, selfcare: 70 },
+        weekEndsOn: settings?.weekEndsOn ?? 'sunday',
+        quickActivities: settings?.quickActivities ?? DEFAULT_QUICK_ACTIVITIES,
+      });
+
+      const cats = await readJSON<Record<string, unknown>>(KEYS.categories);
+      if (!cats || Object.keys(cats).length === 0) {
+        await writeJSON(KEYS.categories, {
+          good: { name: 'Good Time', color: '#4CAF50' },
+          bad: { name: 'Bad Time', color: '#F44336' },
+          selfcare: { name: 'Self Care', color: '#FFC107' },
+        });
+      }
+
+      const templates = await readJSON<unknown[]>(KEYS.activityTemplates);
+      if (!templates || templates.length === 0) {
+        const defaults = [
+          { name: 'Reading', categoryType: 'good' },
+          { name: 'Exercise', categoryType: 'good' },
+          { name: 'Work', categoryType: 'good' },
+          { name: 'Social Media', categoryType: 'bad' },
+          { name: 'Sleep', categoryType: 'selfcare' },
+          { name: 'Bath', categoryType: 'selfcare' },
+          { name: 'Tidying', categoryType: 'selfcare' },
+        ];
+        await writeJSON(KEYS.activityTemplates, defaults.map((t) => ({ id: idFromName(t.name), ...t })));
+      }
+    },
+  },
+  {
+    // Split the single `activities` blob into per-day partitions
+    version: 2,
+    name: 'partition-activities-by-day',
+    migrate: async () => {
+      const activities = await readJSON<unknown[]>(KEYS.activities);
+      if (!activities) return;
+      const list = Array.isArray(activities) ? activities : [];
+
+      const grouped = new Map<string, unknown[]>();
+      for (const activity of list.filter(isActivity)) {
+        const key = activityPartitionKey(activity.startTime);
+        grouped.set(key, [...(grouped.get(key) ?? []), activity]);
+      }
+      // Keep anything we can't place rather than dropping it with the old key.
+      // A re-run after a partial failure finds some of these already set aside
+      const unplaceable = Array.isArray(activities) ? list.filter((a) => !isActivity(a)) : [activities];
+      const alreadyQuarantined = new Set((await loadQuarantine()).filter((e) => e.key === KEYS.activities).map((e) => e.raw));
+      await quarantine(KEYS.activities, unplaceable
+        .map((a) => ({ raw: JSON.stringify(a), reason: 'Invalid activity' }))
+        .filter((item) => !alreadyQuarantined.has(item.raw)));
+
+      // Overwriting is safe on a re-run: the legacy key is only removed once
+      // every partition has been written, and it still holds the full list
+      await AsyncStorage.multiSet([...grouped].map(([key, acts]) => [key, JSON.stringify(acts)]));
+      await AsyncStorage.removeItem(KEYS.activities);
+    },
+  },
+  {
+    // Categories become user-defined; goals move from settings onto each one
+    version: 3,
+    name: 'user-defined-categories',
+    migrate: async () => {
+      const settings = await readJSON<Record<string, unknown>>(KEYS.settings);
+      const categories = await readJSON<unknown>(KEYS.categories);
+      const goals = settings?.goals as Record<string, number> | undefined;
+      // A categories value that isn't a map is left for loadCategories to quarantine
+      if (isLegacyCategory(categories)) {
+        const entries = Object.entries(categories as Record<string, unknown>);
+        await quarantine(KEYS.categories, entries
+          .filter(([, c]) => !isLegacyCategory(c))
+          .map(([id, c]) => ({ raw: JSON.stringify({ [id]: c }), reason: 'Category is not an object' })));
+        await writeJSON(KEYS.categories, upgradeLegacyCategories(categories as Record<string, unknown>, goals));
+      }
+      if (settings && 'goals' in settings) {
+        const { goals: _goals, ...rest } = settings;
+        await writeJSON(KEYS.settings, rest);
+      }
+    },
+  },
+  {
+    // Activities reference their template by id instead of by name
+    version: 4,
+    name: 'link-activities-to-templates',
+    migrate: async () => {
+      const templates = await readJSON<{ id: string; name: string }[]>(KEYS.activityTemplates);
+      if (!Array.isArray(templates)) return;
+      const keys = (await AsyncStorage.getAllKeys()).filter((k) => k.startsWith(KEYS.activityPartitionPrefix));
+      const updates: [string, string][] = [];
+      for (const key of keys) {
+        const list = await readJSON<unknown[]>(key);
+        if (!Array.isArray(list)) continue;
+        updates.push([key, JSON.stringify(linkActivitiesToTemplates(list, templates))]);
+      }
+      if (updates.length > 0) await AsyncStorage.multiSet(updates);
+    },
+  },
+  {
+    // Goals say which period they cover; until now they were all weekly
+    version: 5,
+    name: 'goal-periods',
+    migrate: async () => {
+      const categories = await readJSON<Record<string, Record<string, unknown>>>(KEYS.categories);
+      if (categories) await writeJSON(KEYS.categories, addGoalPeriods(categories));
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings stored data up to SCHEMA_VERSION. The version is saved after every
+ * step, so an interrupted run picks up where it left off on next launch.
+ */
+export async function runMigrations(): Promise<void> {
+  const current = await loadSchemaVersion();
+
+  if (current > SCHEMA_VERSION) {
+    console.warn(`Stored schema v${current} is newer than this app (v${SCHEMA_VERSION}), skipping migrations`);
+    return;
+  }
+
+  const pending = MIGRATIONS
+    .filter((m) => m.version > current)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    await migration.migrate();
+    await saveSchemaVersion(migration.version);
+  }
+}
@@ -3,29 +3,44 @@ import { NavigationContainer, DefaultTheme, Theme } from '@react-navigation/nati
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import HomeScreen from '../screens/HomeScreen';
 import SettingsScreen from '../screens/SettingsScreen';
-import { theme } from '../theme';
+import CalendarImportScreen from '../screens/CalendarImportScreen';
+import TimeTrackerImportScreen from '../screens/TimeTrackerImportScreen';
+import WeeklySummaryScreen from '../screens/WeeklySummaryScreen';
+import BudgetReportScreen from '../screens/BudgetReportScreen';
+import StreaksScreen from '../screens/StreaksScreen';
+import SleepDebtScreen from '../screens/SleepDebtScreen';
+import { useTheme } from '../useTheme';
 
 export type RootStackParamList = {
   Home: undefined;
   Settings: undefined;
+  CalendarImport: undefined;
+  TimeTrackerImport: undefined;
+  WeeklySummary: { date?: string } | undefined; // ISO date inside the week to open, defaults to this week
+  BudgetReport: undefined;
+  Streaks: { date?: string } | undefined; // ISO date the streaks run up to, defaults to today
+  SleepDebt: { date?: string } | undefined; // ISO date the ledger runs up to, defaults to today
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
-const navTheme: Theme = {
-  ...DefaultTheme,
-  colors: {
-    ...DefaultTheme.colors,
-    background: theme.colors.background,
-    card: theme.colors.card,
-    text: theme.colors.text,
-    border: theme.colors.divider,
-    primary: theme.colors.accent,
-    notification: theme.colors.accent,
-  },
-};
-
 export default function AppNavigator() {
+  const { theme, effectiveScheme } = useTheme();
+
+  const navTheme: Theme = {
+    ...DefaultTheme,
+    dark: effectiveScheme === 'dark',
+    colors: {
+      ...DefaultTheme.colors,
+      background: theme.colors.background,
+      card: theme.colors.card,
+      text: theme.colors.text,
+      border: theme.colors.divider,
+      primary: theme.colors.accent,
+      notification: theme.colors.accent,
+    },
+  };
+
   return (
     <NavigationContainer theme={navTheme}>
       <Stack.Navigator
@@ -38,6 +53,12 @@ export default function AppNavigator() {
       >
         <Stack.Screen name="Home" component={HomeScreen} options={{ title: '16dollars' }} />
         <Stack.Screen name="Settings" component={SettingsScreen} options={{ title: 'Settings' }} />
+        <Stack.Screen name="CalendarImport" component={CalendarImportScreen} options={{ title: 'Import Calendar' }} />
+        <Stack.Screen name="TimeTrackerImport" component={TimeTrackerImportScreen} options={{ title: 'Import from Toggl / Clockify' }} />
+        <Stack.Screen name="WeeklySummary" component={WeeklySummaryScreen} options={{ title: 'Weekly Summary' }} />
+        <Stack.Screen name="BudgetReport" component={BudgetReportScreen} options={{ title: 'Activity Budgets' }} />
+        <Stack.Screen name="Streaks" component={StreaksScreen} options={{ title: 'Streaks' }} />
+        <Stack.Screen name="SleepDebt" component={SleepDebtScreen} options={{ title: 'Sleep Debt' }} />
       </Stack.Navigator>
     </NavigationContainer>
   );
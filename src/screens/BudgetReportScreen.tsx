@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useTheme } from '../useTheme';
+import { useActivitiesInRange, useCategories, useSettings, useTemplates } from '../store';
+import { getMostRecentWake } from '../utils/time';
+import { BudgetPeriod, GOAL_PERIOD_LABELS, GOAL_PERIOD_SUFFIXES, computeBudgetHistory, getGoalRange, getPeriodRanges } from '../utils/goals';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'BudgetReport'>;
+
+// Periods shown per template, including the current one
+const HISTORY = 8;
+
+export default function BudgetReportScreen(_props: Props) {
+  const { theme } = useTheme();
+  const settings = useSettings();
+  const templates = useTemplates();
+  const categories = useCategories();
+
+  const day = useMemo(() => getMostRecentWake(new Date(), settings), [settings]);
+  const budgeted = useMemo(() => templates.filter((t) => t.budget && !t.archived), [templates]);
+
+  // Loads far enough back for the longest history among the budgets
+  const range = useMemo(() => {
+    const starts = budgeted.map((t) => getPeriodRanges(t.budget!.period, day, settings, HISTORY)[0].start.getTime());
+    const end = getGoalRange('daily', day, settings).end;
+    return { start: starts.length ? new Date(Math.min(...starts)) : end, end };
+  }, [budgeted, day, settings]);
+  const activities = useActivitiesInRange(range.start, range.end);
+
+  function stateColor(period: BudgetPeriod): string {
+    switch (period.progress.state) {
+      case 'met': return theme.colors.green;
+      case 'near': return theme.colors.yellow;
+      case 'over': return theme.colors.red;
+      default: return theme.colors.muted;
+    }
+  }
+
+  if (budgeted.length === 0) {
+    return (
+      <View style={{ flex: 1, backgroundColor: theme.colors.background, padding: theme.spacing(3), justifyContent: 'center' }}>
+        <Text style={{ color: theme.colors.muted, textAlign: 'center' }}>
+          No activity has a budget yet. Add one to an activity in Settings, like "Social Media at most $1.00/day".
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: theme.colors.background }} contentContainerStyle={{ padding: theme.spacing(2), paddingBottom: theme.spacing(8) }}>
+      {budgeted.map((template) => {
+        const budget = template.budget!;
+        const history = computeBudgetHistory(activities, template, day, settings, HISTORY);
+        const current = history[history.length - 1];
+        const past = history.slice(0, -1);
+        // A cap is kept when it wasn't passed; a minimum when it was reached
+        const kept = past.filter((p) => (budget.polarity === 'less' ? p.progress.state !== 'over' : p.progress.state === 'met')).length;
+        const isCap = budget.polarity === 'less';
+        const color = categories[template.categoryType]?.color ?? theme.colors.divider;
+        const periodWord = budget.period === 'daily' ? 'days' : budget.period === 'weekly' ? 'weeks' : 'months';
+        return (
+          <View key={template.id} style={{ backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginBottom: theme.spacing(2), borderLeftWidth: 4, borderLeftColor: color }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 }}>
+              <Text style={{ color: theme.colors.text, fontSize: 16, fontWeight: '700' }}>{template.name}</Text>
+              <Text style={{ color: theme.colors.muted }}>
+                {isCap ? '≤ ' : '≥ '}${budget.amount.toFixed(2)}{GOAL_PERIOD_SUFFIXES[budget.period]}
+              </Text>
+            </View>
+
+            {/* Current period */}
+            <Text style={{ color: stateColor(current), fontSize: 13, fontWeight: '600', marginBottom: 6 }}>
+              {GOAL_PERIOD_LABELS[budget.period]}: ${current.total.toFixed(2)}
+              {isCap
+                ? current.progress.state === 'over'
+                  ? ` · $${(current.total - budget.amount).toFixed(2)} over`
+                  : ` · $${(budget.amount - current.total).toFixed(2)} left`
+                : current.progress.state === 'met'
+                  ? ' · reached'
+                  : ` · $${(budget.amount - current.total).toFixed(2)} to go`}
+            </Text>
+            <View style={{ height: 10, backgroundColor: theme.colors.divider, borderRadius: 20, overflow: 'hidden', marginBottom: theme.spacing(2) }}>
+              <View style={{ height: '100%', width: `${current.progress.fraction * 100}%`, backgroundColor: !isCap && current.progress.state === 'under' ? color : stateColor(current), borderRadius: 20 }} />
+            </View>
+
+            {/* History, oldest on the left. The budget sits at half height so overspending still shows */}
+            <View style={{ flexDirection: 'row', alignItems: 'flex-end', height: 40, marginBottom: 6 }}>
+              {history.map((p, i) => (
+                <View key={p.start.toISOString()} style={{ flex: 1, marginHorizontal: 2, height: '100%', justifyContent: 'flex-end', opacity: i === history.length - 1 ? 0.5 : 1 }}>
+                  <View style={{ height: `${Math.max(Math.min(budget.amount > 0 ? p.total / budget.amount / 2 : 0, 1), 0.04) * 100}%`, backgroundColor: stateColor(p), borderRadius: 3 }} />
+                </View>
+              ))}
+            </View>
+            <Text style={{ color: theme.colors.muted, fontSize: 12 }}>
+              {isCap ? 'Stayed under' : 'Reached'} in {kept} of the last {past.length} {periodWord}
+            </Text>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, Alert } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useTheme } from '../useTheme';
+import { Activity, CalendarImportRule } from '../types';
+import { addActivities, loadActivitiesStartingOn, saveSettings } from '../storage';
+import { useCategories, useSettings, useTemplates } from '../store';
+import { IcsEvent, activityIdForEvent, matchTemplate, parseICS } from '../utils/ical';
+import { pickTextFile } from '../utils/files';
+import { computeCost, currentTimeZone, formatTime12h } from '../utils/time';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'CalendarImport'>;
+
+interface Row {
+  event: IcsEvent;
+  activityId: string;
+  alreadyImported: boolean;
+  templateId: string | null; // manual choice; null means "use the rules"
+  included: boolean;
+}
+
+export default function CalendarImportScreen({ navigation }: Props) {
+  const { theme } = useTheme();
+  const settings = useSettings();
+  const templates = useTemplates();
+  const categories = useCategories();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [rules, setRules] = useState<CalendarImportRule[]>(settings.calendarImportRules ?? []);
+  const [choosingFor, setChoosingFor] = useState<string | null>(null);
+
+  useEffect(() => setRules(settings.calendarImportRules ?? []), [settings.calendarImportRules]);
+
+  function templateFor(row: Row) {
+    if (row.templateId) return templates.find((t) => t.id === row.templateId);
+    return matchTemplate(row.event.title, rules, templates);
+  }
+
+  async function chooseFile() {
+    try {
+      const file = await pickTextFile(['text/calendar', 'application/ics', '*/*']);
+      if (!file) return;
+
+      const events = parseICS(file.text).sort((a, b) => a.start.getTime() - b.start.getTime());
+      if (events.length === 0) {
+        Alert.alert('No events found', 'This file has no timed events to import.');
+        return;
+      }
+      const notes: string[] = [];
+      const unknownZones = [...new Set(events.map((e) => e.unknownZone).filter((z): z is string => !!z))];
+      if (unknownZones.length > 0) {
+        notes.push(`${unknownZones.join(', ')} isn't a time zone this device knows, so those events were read in your current time zone.`);
+      }
+      const repeating = events.filter((e) => e.repeats).length;
+      if (repeating > 0) {
+        notes.push(`${repeating} repeating ${repeating === 1 ? 'event' : 'events'} will only import the first time, plus any single times that were edited.`);
+      }
+      if (notes.length > 0) Alert.alert('Check before importing', notes.join('\n\n'));
+
+      // Only the days with events, since a calendar can span years
+      const existing = await loadActivitiesStartingOn(events.map((e) => e.start));
+      const existingIds = new Set(existing.map((a) => a.id));
+      // A UID (with its RECURRENCE-ID) can appear more than once in a file; keep the first
+      const seen = new Set<string>();
+      const unique = events.filter((event) => {
+        const id = activityIdForEvent(event);
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      });
+      setFileName(file.name);
+      setRows(unique.map((event) => {
+        const activityId = activityIdForEvent(event);
+        const alreadyImported = existingIds.has(activityId);
+        return {
+          event,
+          activityId,
+          alreadyImported,
+          templateId: null,
+          included: !alreadyImported && !!matchTemplate(event.title, rules, templates),
+        };
+      }));
+    } catch (e) {
+      Alert.alert('Could not read calendar', e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function updateRow(activityId: string, patch: Partial<Row>) {
+    setRows((prev) => prev.map((r) => (r.activityId === activityId ? { ...r, ...patch } : r)));
+  }
+
+  function updateRule(id: string, patch: Partial<CalendarImportRule>) {
+    setRules((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  function addRule() {
+    const rule: CalendarImportRule = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      match: '',
+      templateId: templates.find((t) => !t.archived)?.id ?? '',
+    };
+    setRules((prev) => [...prev, rule]);
+  }
+
+  async function saveRules() {
+    await saveSettings({ ...settings, calendarImportRules: rules.filter((r) => r.match.trim()) });
+  }
+
+  const selected = useMemo(() => rows.filter((r) => r.included && !r.alreadyImported && templateFor(r)), [rows, rules, templates]);
+
+  async function handleImport() {
+    const activities: Activity[] = selected.map((row) => {
+      const template = templateFor(row)!;
+      const startTime = row.event.start.toISOString();
+      const endTime = row.event.end.toISOString();
+      return {
+        id: row.activityId,
+        name: template.name,
+        categoryType: template.categoryType,
+        templateId: template.id,
+        startTime,
+        endTime,
+        cost: computeCost(startTime, endTime),
+        timeZone: row.event.timeZone ?? currentTimeZone(),
+      };
+    });
+    try {
+      await addActivities(activities);
+      await saveRules();
+    } catch (e) {
+      Alert.alert('Could not import', e instanceof Error ? e.message : String(e));
+      return;
+    }
+    Alert.alert('Import complete', `Added ${activities.length} ${activities.length === 1 ? 'activity' : 'activities'}.`);
+    navigation.goBack();
+  }
+
+  function renderRow(row: Row) {
+    const template = templateFor(row);
+    const color = template ? categories[template.categoryType]?.color : theme.colors.divider;
+    const disabled = row.alreadyImported;
+
+    return (
+      <View key={row.activityId} style={{ backgroundColor: theme.colors.card, padding: theme.spacing(2), borderRadius: 10, marginBottom: theme.spacing(1), borderLeftWidth: 4, borderLeftColor: color ?? theme.colors.divider, opacity: disabled ? 0.5 : 1 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <TouchableOpacity
+            disabled={disabled}
+            onPress={() => updateRow(row.activityId, { included: !row.included })}
+            style={{ width: 24, height: 24, borderRadius: 6, borderWidth: 2, borderColor: theme.colors.accent, backgroundColor: row.included && !disabled ? theme.colors.accent : 'transparent', marginRight: theme.spacing(1.5), alignItems: 'center', justifyContent: 'center' }}
+          >
+            {row.included && !disabled && <Text style={{ color: theme.colors.accentText, fontWeight: '900' }}>✓</Text>}
+          </TouchableOpacity>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: theme.colors.text, fontWeight: '600' }}>{row.event.title}</Text>
+            <Text style={{ color: theme.colors.muted, fontSize: 12, marginTop: 2 }}>
+              {row.event.start.toLocaleDateString()} · {formatTime12h(row.event.start)} - {formatTime12h(row.event.end)}
+              {disabled ? ' · already imported' : ''}
+            </Text>
+          </View>
+          <TouchableOpacity disabled={disabled} onPress={() => setChoosingFor(choosingFor === row.activityId ? null : row.activityId)} style={{ paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, backgroundColor: template ? color : theme.colors.divider }}>
+            <Text style={{ color: template ? '#FFF' : theme.colors.text, fontSize: 12, fontWeight: '600' }}>{template?.name ?? 'Choose…'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {choosingFor === row.activityId && (
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginTop: theme.spacing(1) }}>
+            {templates.filter((t) => !t.archived).map((t) => (
+              <TouchableOpacity
+                key={t.id}
+                onPress={() => {
+                  updateRow(row.activityId, { templateId: t.id, included: true });
+                  setChoosingFor(null);
+                }}
+                style={{ paddingVertical: 6, paddingHorizontal: 12, borderRadius: 12, marginRight: 6, marginBottom: 6, backgroundColor: t.id === template?.id ? categories[t.categoryType]?.color : theme.colors.divider }}
+              >
+                <Text style={{ color: t.id === template?.id ? '#FFF' : theme.colors.text, fontSize: 12 }}>{t.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: theme.colors.background }}>
+      <ScrollView contentContainerStyle={{ padding: theme.spacing(2), paddingBottom: theme.spacing(16) }}>
+        {/* Title Rules */}
+        <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(1) }}>Title Rules</Text>
+        <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(1) }}>Events whose title contains the text are logged as that activity. The first matching rule wins.</Text>
+        {rules.map((rule) => (
+          <View key={rule.id} style={{ backgroundColor: theme.colors.card, padding: theme.spacing(1.5), borderRadius: 10, marginBottom: theme.spacing(1) }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+              <TextInput
+                value={rule.match}
+                onChangeText={(match) => updateRule(rule.id, { match })}
+                placeholder="e.g. standup"
+                placeholderTextColor={theme.colors.muted}
+                autoCapitalize="none"
+                style={{ flex: 1, color: theme.colors.text, backgroundColor: theme.colors.background, padding: 8, borderRadius: 6, borderWidth: 1, borderColor: theme.colors.divider }}
+              />
+              <TouchableOpacity onPress={() => setRules((prev) => prev.filter((r) => r.id !== rule.id))} style={{ padding: 8 }}>
+                <Text style={{ color: theme.colors.red }}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+              {templates.filter((t) => !t.archived || t.id === rule.templateId).map((t) => {
+                const isSelected = rule.templateId === t.id;
+                return (
+                  <TouchableOpacity key={t.id} onPress={() => updateRule(rule.id, { templateId: t.id })} style={{ paddingVertical: 4, paddingHorizontal: 10, borderRadius: 12, marginRight: 6, marginBottom: 6, backgroundColor: isSelected ? categories[t.categoryType]?.color : theme.colors.divider }}>
+                    <Text style={{ color: isSelected ? '#FFF' : theme.colors.text, fontSize: 12, fontWeight: isSelected ? '600' : '400' }}>{t.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: theme.spacing(3) }}>
+          <TouchableOpacity onPress={addRule} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.divider }}>
+            <Text style={{ color: theme.colors.text }}>Add Rule</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={saveRules} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.accent }}>
+            <Text style={{ color: theme.colors.accentText, fontWeight: '700' }}>Save Rules</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Events */}
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: theme.spacing(1) }}>
+          <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700' }}>Events</Text>
+          <TouchableOpacity onPress={chooseFile} style={{ padding: 8 }}>
+            <Text style={{ color: theme.colors.accent, fontWeight: '600' }}>{fileName ? 'Choose Another File' : 'Choose .ics File'}</Text>
+          </TouchableOpacity>
+        </View>
+        {fileName && <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(1) }}>{fileName} · {rows.length} events</Text>}
+        {rows.map(renderRow)}
+      </ScrollView>
+
+      {rows.length > 0 && (
+        <View style={{ position: 'absolute', bottom: 0, left: 0, right: 0, padding: theme.spacing(2), paddingBottom: theme.spacing(6), backgroundColor: theme.colors.card, borderTopWidth: 1, borderTopColor: theme.colors.divider }}>
+          <TouchableOpacity onPress={handleImport} disabled={selected.length === 0} style={{ padding: 14, borderRadius: 12, backgroundColor: selected.length > 0 ? theme.colors.accent : theme.colors.divider }}>
+            <Text style={{ color: selected.length > 0 ? theme.colors.accentText : theme.colors.muted, fontWeight: '700', textAlign: 'center' }}>
+              Import {selected.length} {selected.length === 1 ? 'Event' : 'Events'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -1,52 +1,44 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert, PanResponder, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { useFocusEffect } from '@react-navigation/native';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useTheme } from '../useTheme';
-import { Activity, ActivityTemplate, Category, CategoryType, UserSettings } from '../types';
-import { addActivity, deleteActivity, loadActivities, loadActivityTemplates, loadCategories, loadSettings, updateActivity } from '../storage';
-import { computeRemainingDollars, computeSpentDollars, durationHoursAcrossMidnight, formatTime12h, getDayWindow, isInSleepWindow } from '../utils/time';
+import { Activity, CategoryType, RunningActivity } from '../types';
+import { deleteActivity, runActivityTransaction, saveSettings, startRunningActivity, stopAllRunningAndAdd, stopRunningActivity } from '../storage';
+import { useActivitiesInRange, useCategories, useRunningActivities, useSettings, useTemplates } from '../store';
+import { computeCost, computeRemainingDollars, computeSpentDollars, currentTimeZone, formatTime12h, formatTimeZoneName, getDayWindow, getDayWindowForDate, getCurrentSleepBlock, getMostRecentWake, getNextBedtimeFromWake, getSleepBlocks, getSleepTimes, getWakeForDate, awakeHoursBetween, round2, withBedtimeAt } from '../utils/time';
+import { computeCategoryTotals } from '../utils/totals';
+import { defaultCategoryId, orderedCategories } from '../utils/categories';
+import { OverlapChanges, findOverlappingIds } from '../utils/overlaps';
+import { TimeGap, computeCoverage, findGaps } from '../utils/gaps';
+import { GOAL_PERIOD_LABELS, GOAL_PERIOD_SUFFIXES, computeBudgetTotals, computeGoalTotals, getGoalsStart, goalProgress, usedGoalPeriods } from '../utils/goals';
+import { computeBorrowedDollars, computeSleepLedger, formatDebtHours, getSleepDebtRange, isSleepActivity } from '../utils/sleepDebt';
 import ActivityModal from '../components/ActivityModal';
 
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Home'>;
 
+// How long before bedtime the daytime header starts offering "I'm going to bed now"
+const BED_BUTTON_HOURS = 3;
+// Nights of sleep debt Home adds up; the full ledger is on the Sleep Debt screen
+const HOME_DEBT_NIGHTS = 7;
+
 export default function HomeScreen({ navigation }: Props) {
-  const { theme, reloadTheme } = useTheme();
-  const [activities, setActivities] = useState<Activity[]>([]);
-  const [templates, setTemplates] = useState<ActivityTemplate[]>([]);
-  const [categories, setCategories] = useState<Record<CategoryType, Category>>({ good: { name: 'Good Time', color: '#4CAF50' }, bad: { name: 'Bad Time', color: '#F44336' }, selfcare: { name: 'Self Care', color: '#FFC107' } });
-  const [settings, setSettings] = useState<UserSettings>({ bedtime: '23:00', wakeTime: '07:00' });
+  const { theme } = useTheme();
+  const templates = useTemplates();
+  const categories = useCategories();
+  const settings = useSettings();
+  const running = useRunningActivities();
   const [now, setNow] = useState<Date>(new Date());
 
   const [modalVisible, setModalVisible] = useState(false);
   const [editing, setEditing] = useState<Activity | null>(null);
-
-  const refresh = useCallback(async () => {
-    const [acts, temps, cats, setts] = await Promise.all([
-      loadActivities(),
-      loadActivityTemplates(),
-      loadCategories(),
-      loadSettings(),
-    ]);
-    setActivities(acts);
-    setTemplates(temps);
-    setCategories(cats);
-    if (setts) setSettings(setts);
-  }, []);
-
-  useEffect(() => {
-    refresh();
-  }, [refresh]);
-
-  // Refresh when screen comes into focus (e.g., after returning from Settings)
-  useFocusEffect(
-    useCallback(() => {
-      refresh();
-      reloadTheme(); // Also reload theme in case it was changed in Settings
-    }, [refresh, reloadTheme])
-  );
+  const [prefill, setPrefill] = useState<{ start: Date; end: Date } | null>(null);
+  // null follows today; otherwise the calendar date being browsed
+  const [viewDate, setViewDate] = useState<Date | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const viewingToday = viewDate === null;
 
   useEffect(() => {
     // Update every 36 seconds (0.01 hour)
@@ -56,41 +48,87 @@ export default function HomeScreen({ navigation }: Props) {
     return () => clearInterval(id);
   }, []);
 
-  // Also update now whenever settings change (for immediate reactivity)
+  // Also update now whenever settings or running timers change (for immediate reactivity)
   useEffect(() => {
     setNow(new Date());
-  }, [settings]);
+  }, [settings, running]);
 
+  // The night's sleep or a nap happening right now
   const sleeping = useMemo(() => {
-    return isInSleepWindow(now, settings);
-  }, [now, settings]);
+    return viewingToday ? getCurrentSleepBlock(now, settings) : null;
+  }, [viewingToday, now, settings]);
 
   const remaining = useMemo(() => computeRemainingDollars(now, settings), [now, settings]);
   const spent = useMemo(() => computeSpentDollars(now, settings), [now, settings]);
 
-  const dayWindow = useMemo(() => getDayWindow(now, settings), [now, settings]);
+  const dayWindow = useMemo(
+    () => (viewDate ? getDayWindowForDate(viewDate, settings) : getDayWindow(now, settings)),
+    [viewDate, now, settings]
+  );
+  // The wake-up that starts the shown day; new and edited activities are anchored to it
+  const wakeDay = useMemo(
+    () => (viewDate ? getWakeForDate(viewDate, settings) : getMostRecentWake(now, settings)),
+    [viewDate, now, settings]
+  );
+  // Only loads the partitions covering the shown window (bedtime before to the next bedtime)
+  const activities = useActivitiesInRange(dayWindow.start, dayWindow.end);
 
   const todaysActivities = useMemo(() => {
-    const filtered = activities
-      .filter((a) => {
-        // Include if overlaps today's window (from most recent bedtime to next bedtime)
-        const s = new Date(a.startTime);
-        let e = new Date(a.endTime);
-        if (e < s) e = new Date(e.getTime() + 24 * 60 * 60 * 1000);
-        return s < dayWindow.end && e > dayWindow.start;
-      })
-      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()); // Reverse: newest first
-
-    return filtered;
-  }, [activities, dayWindow]);
+    // Reverse: newest first
+    return [...activities].sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  }, [activities]);
+
+  const overlappingIds = useMemo(() => findOverlappingIds(todaysActivities), [todaysActivities]);
+
+  // Zones the day was logged in, in order. More than one makes it a travel day.
+  const travelZones = useMemo(() => {
+    const zones: string[] = [];
+    const chronological = [...todaysActivities].reverse().map((a) => a.timeZone);
+    for (const zone of [...chronological, viewingToday ? currentTimeZone() : undefined]) {
+      if (zone && zones[zones.length - 1] !== zone) zones.push(zone);
+    }
+    return new Set(zones).size > 1 ? zones : [];
+  }, [todaysActivities, viewingToday]);
+
+  // Running timers priced up to now, so goals move while they tick
+  const liveActivities = useMemo<Activity[]>(() => (viewingToday ? running : []).map((r) => {
+    const endTime = new Date(Math.max(now.getTime(), new Date(r.startTime).getTime())).toISOString();
+    return { ...r, endTime, cost: computeCost(r.startTime, endTime) };
+  }), [viewingToday, running, now]);
+
+  // The shown day's own schedule, which can differ by weekday or date
+  const sleepTimes = useMemo(() => getSleepTimes(wakeDay, settings), [wakeDay, settings]);
+  const bedDay = useMemo(() => getNextBedtimeFromWake(wakeDay, settings), [wakeDay, settings]);
+
+  // Untracked time between waking up and now (or bedtime, if it's already passed)
+  const awake = useMemo(() => ({ start: wakeDay, end: now < bedDay ? now : bedDay }), [wakeDay, now, bedDay]);
+  // Naps count as covered so they don't show up as untracked gaps
+  const naps = useMemo(
+    () => getSleepBlocks(wakeDay, bedDay, settings)
+      .filter((b) => b.nap)
+      .map((b) => ({ startTime: b.start.toISOString(), endTime: b.end.toISOString() })),
+    [wakeDay, bedDay, settings]
+  );
+  const gaps = useMemo(
+    () => findGaps([...todaysActivities, ...liveActivities, ...naps], awake.start, awake.end),
+    [todaysActivities, liveActivities, naps, awake]
+  );
+  const coverage = useMemo(
+    () => computeCoverage([...todaysActivities, ...liveActivities, ...naps], awake.start, awake.end),
+    [todaysActivities, liveActivities, naps, awake]
+  );
+
+  // Logged activities and gaps, newest first
+  const timeline = useMemo(() => {
+    const items: ({ at: number; activity: Activity } | { at: number; gap: TimeGap })[] = [
+      ...todaysActivities.map((activity) => ({ at: new Date(activity.startTime).getTime(), activity })),
+      ...gaps.map((gap) => ({ at: gap.start.getTime(), gap })),
+    ];
+    return items.sort((a, b) => b.at - a.at);
+  }, [todaysActivities, gaps]);
 
   // Calculate category totals
-  const categoryTotals = useMemo(() => {
-    return todaysActivities.reduce((acc, activity) => {
-      acc[activity.categoryType] += activity.cost;
-      return acc;
-    }, { good: 0, bad: 0, selfcare: 0 } as Record<CategoryType, number>);
-  }, [todaysActivities]);
+  const categoryTotals = useMemo(() => computeCategoryTotals([...todaysActivities, ...liveActivities]), [todaysActivities, liveActivities]);
 
   function categoryColor(catType: CategoryType): string {
     return categories[catType]?.color ?? theme.colors.divider;
@@ -104,40 +142,221 @@ export default function HomeScreen({ navigation }: Props) {
     return `${displayHour}:${m.toString().padStart(2, '0')}${ampm}`;
   }
 
+  // Goals and budgets count over their own period (day, week or month so far), so they need
+  // a wider load than the timeline. Streaks look back further and load on their own screen.
+  const goalCategories = useMemo(() => orderedCategories(categories), [categories]);
+  const budgetTemplates = useMemo(() => templates.filter((t) => t.budget && !t.archived), [templates]);
+  const goalsStart = useMemo(
+    () => getGoalsStart(usedGoalPeriods(goalCategories, budgetTemplates), wakeDay, settings),
+    [goalCategories, budgetTemplates, wakeDay, settings]
+  );
+  const goalActivities = useActivitiesInRange(goalsStart, dayWindow.end);
+  const goalTotals = useMemo(
+    () => computeGoalTotals([...goalActivities, ...liveActivities], goalCategories, wakeDay, settings),
+    [goalActivities, liveActivities, goalCategories, wakeDay, settings]
+  );
+  const budgetTotals = useMemo(
+    () => computeBudgetTotals([...goalActivities, ...liveActivities], templates, wakeDay, settings),
+    [goalActivities, liveActivities, templates, wakeDay, settings]
+  );
+
+  // The past week's sleep debt, so Home only loads a few more days. It's settled as of
+  // this morning's wake-up, so it only reruns when the day or its sleep changes.
+  const debtRange = useMemo(() => getSleepDebtRange(wakeDay, settings, HOME_DEBT_NIGHTS), [wakeDay, settings]);
+  const debtActivities = useActivitiesInRange(debtRange.start, debtRange.end);
+  const sleepDebt = useMemo(() => {
+    const nights = computeSleepLedger(debtActivities, wakeDay, settings, wakeDay, HOME_DEBT_NIGHTS);
+    return nights[nights.length - 1]?.balance ?? 0;
+  }, [debtActivities, wakeDay, settings]);
+  // Time up past bedtime comes out of tomorrow
+  const borrowed = useMemo(
+    () => (viewingToday ? computeBorrowedDollars(now, settings, [...activities, ...running]) : 0),
+    [viewingToday, now, settings, activities, running]
+  );
+  // Sleep already logged or running through now, so there's no bed button to offer
+  const inBed = useMemo(
+    () => running.some(isSleepActivity) || activities.some((a) => isSleepActivity(a) && new Date(a.startTime) <= now && new Date(a.endTime) > now),
+    [running, activities, now]
+  );
+  const eveningBeforeBed = viewingToday && !sleeping && now < bedDay && bedDay.getTime() - now.getTime() <= BED_BUTTON_HOURS * 3600000;
+
+  // Templates whose cap has been passed; their cards get a badge
+  const overBudgetIds = useMemo(() => new Set(templates.filter((t) =>
+    t.budget?.polarity === 'less' && goalProgress('less', budgetTotals[t.id] ?? 0, t.budget.amount).state === 'over'
+  ).map((t) => t.id)), [templates, budgetTotals]);
+
+  const loggedTotal = useMemo(() => Object.values(categoryTotals).reduce((sum, n) => sum + n, 0), [categoryTotals]);
+
+  function showDay(date: Date) {
+    const today = getMostRecentWake(new Date(), settings);
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    // There's nothing to browse ahead of today
+    setViewDate(day >= new Date(today.getFullYear(), today.getMonth(), today.getDate()) ? null : day);
+  }
+
+  function shiftDay(delta: number) {
+    showDay(new Date(wakeDay.getFullYear(), wakeDay.getMonth(), wakeDay.getDate() + delta));
+  }
+
+  // Horizontal swipes on the timeline move between days. The responder is
+  // created once, so it calls through a ref to see the current day.
+  const shiftDayRef = useRef(shiftDay);
+  shiftDayRef.current = shiftDay;
+  const swipe = useRef(PanResponder.create({
+    onMoveShouldSetPanResponder: (_e, g) => Math.abs(g.dx) > 30 && Math.abs(g.dx) > Math.abs(g.dy) * 2,
+    onPanResponderRelease: (_e, g) => {
+      if (Math.abs(g.dx) > 60) shiftDayRef.current(g.dx > 0 ? -1 : 1);
+    },
+  })).current;
+
   function onAddPress() {
     setEditing(null);
+    setPrefill(null);
     setModalVisible(true);
   }
 
-  async function handleSave(activity: Activity) {
-    if (editing) {
-      await updateActivity(activity);
-    } else {
-      await addActivity(activity);
-    }
-    await refresh();
+  function onGapPress(gap: TimeGap) {
+    setEditing(null);
+    setPrefill({ start: gap.start, end: gap.end });
+    setModalVisible(true);
+  }
+
+  async function handleSave(activity: Activity, changes?: OverlapChanges) {
+    // The activity and whatever resolving its overlaps changed land together
+    await runActivityTransaction(async (tx) => {
+      if (editing) await tx.update(activity, editing.startTime);
+      else await tx.add(activity);
+      for (const a of changes?.updated ?? []) {
+        await tx.update(a, activities.find((x) => x.id === a.id)?.startTime);
+      }
+      for (const a of changes?.added ?? []) await tx.add(a);
+      for (const a of changes?.removed ?? []) await tx.remove(a);
+    });
+    setModalVisible(false);
+  }
+
+  async function handleSaveMany(list: Activity[], changes?: OverlapChanges) {
+    await runActivityTransaction(async (tx) => {
+      for (const a of list) await tx.add(a);
+      for (const a of changes?.updated ?? []) {
+        await tx.update(a, activities.find((x) => x.id === a.id)?.startTime);
+      }
+      for (const a of changes?.removed ?? []) await tx.remove(a);
+    });
     setModalVisible(false);
   }
 
+  async function handleStart(next: RunningActivity) {
+    const begin = async () => {
+      await startRunningActivity(next);
+      setModalVisible(false);
+    };
+    if (running.length === 0) return begin();
+
+    // Two timers at once would double-count the same stretch of time
+    const names = running.map((r) => r.name).join(', ');
+    Alert.alert(
+      'A timer is already running',
+      `${names} ${running.length === 1 ? 'is' : 'are'} still running. Starting ${next.name} too means the two will overlap.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: `Stop ${running.length === 1 ? running[0].name : 'Others'} First`,
+          onPress: async () => {
+            const end = new Date(next.startTime);
+            for (const r of running) await stopRunningActivity(r.id, end);
+            await begin();
+          },
+        },
+        { text: 'Run Both', onPress: begin },
+      ]
+    );
+  }
+
+  // Logs Sleep from now until the next wake-up and moves tonight's bedtime here, so the
+  // day's window ends when it really did. Running timers stop as you go to bed. The
+  // bedtime only moves once the sleep is logged.
+  async function goToBedNow() {
+    const bedAt = new Date();
+    const next = withBedtimeAt(wakeDay, bedAt, settings);
+    const wake = getWakeForDate(new Date(wakeDay.getFullYear(), wakeDay.getMonth(), wakeDay.getDate() + 1), next);
+    const template = templates.find((t) => !t.archived && isSleepActivity({ name: t.name, templateId: t.id }));
+    try {
+      await stopAllRunningAndAdd({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: template?.name ?? 'Sleep',
+        categoryType: template?.categoryType ?? defaultCategoryId(categories),
+        templateId: template?.id,
+        startTime: bedAt.toISOString(),
+        endTime: wake.toISOString(),
+        cost: computeCost(bedAt.toISOString(), wake.toISOString()),
+        timeZone: currentTimeZone(),
+      });
+      await saveSettings(next);
+    } catch (e) {
+      Alert.alert('Could not log sleep', e instanceof Error ? e.message : String(e));
+    }
+  }
+
   async function handleDelete(id: string) {
-    await deleteActivity(id);
-    await refresh();
+    const target = activities.find((a) => a.id === id);
+    if (target) await deleteActivity(target);
     setModalVisible(false);
   }
 
   function renderHeader() {
-    if (sleeping) {
+    if (!viewingToday) {
       return (
-        <View style={{ padding: theme.spacing(2), paddingTop: theme.spacing(2) }}>
-          {/* Logo */}
-          <View style={{ marginBottom: theme.spacing(2) }}>
-            <Text style={{ color: theme.colors.text, fontSize: 24, fontWeight: '900', letterSpacing: -0.5 }}>
-              16dollars
+        <View style={{ paddingTop: theme.spacing(2), paddingBottom: theme.spacing(1), paddingHorizontal: theme.spacing(2) }}>
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+            <View style={{ paddingTop: 4 }}>
+              <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '900', letterSpacing: -0.5 }}>
+                16dollars
+              </Text>
+            </View>
+            <View style={{ alignItems: 'flex-end' }}>
+              <Text style={{ color: theme.colors.text, fontSize: 16, fontWeight: '400', letterSpacing: 0.3, marginBottom: 4 }}>
+                logged that day
+              </Text>
+              <Text style={{ color: theme.colors.text, fontSize: 64, fontWeight: '900', letterSpacing: -2, lineHeight: 64 }}>
+                ${loggedTotal.toFixed(2)}
+              </Text>
+            </View>
+          </View>
+          <View style={{ alignItems: 'flex-end', marginTop: theme.spacing(1) }}>
+            <Text style={{ color: theme.colors.muted, fontSize: 13 }}>
+              {Math.round(coverage * 100)}% of the waking day tracked
             </Text>
           </View>
-          <Text style={{ color: theme.colors.text, fontSize: 28, fontWeight: '700' }}>
-            Time to invest in sleep silly! 🛏️
+        </View>
+      );
+    }
+
+    // Night mode: the rest of the dashboard stays usable for late-night logging
+    if (sleeping) {
+      return (
+        <View style={{ margin: theme.spacing(2), marginBottom: theme.spacing(1), padding: theme.spacing(2), borderRadius: 20, backgroundColor: '#4C1D95', overflow: 'hidden' }}>
+          <Text style={{ position: 'absolute', right: 12, top: 8, fontSize: 56, opacity: 0.3 }}>🌙</Text>
+          <Text style={{ color: '#F3E8FF', fontSize: 20, fontWeight: '900', letterSpacing: -0.5, marginBottom: theme.spacing(1) }}>
+            16dollars
           </Text>
+          <Text style={{ color: '#FFFFFF', fontSize: 24, fontWeight: '700' }}>
+            {sleeping.nap ? 'Nap time 😴' : 'Time to invest in sleep silly! 🛏️'}
+          </Text>
+          <Text style={{ color: '#F3E8FF', fontSize: 15, marginTop: 4 }}>
+            {sleeping.nap ? 'Back' : 'Up'} at {formatTime12h(sleeping.end)}
+          </Text>
+          {borrowed > 0 && (
+            <Text style={{ color: '#FCA5A5', fontSize: 15, fontWeight: '600', marginTop: 4 }}>
+              ${borrowed.toFixed(2)} borrowed from tomorrow
+            </Text>
+          )}
+          {renderSleepDebt('#FCA5A5')}
+          {!sleeping.nap && !inBed && (
+            <TouchableOpacity onPress={goToBedNow} style={{ marginTop: theme.spacing(2), padding: 14, borderRadius: 12, backgroundColor: 'rgba(255,255,255,0.15)', alignItems: 'center' }}>
+              <Text style={{ color: '#FFFFFF', fontSize: 16, fontWeight: '700' }}>I'm going to bed now</Text>
+            </TouchableOpacity>
+          )}
         </View>
       );
     }
@@ -169,40 +388,117 @@ export default function HomeScreen({ navigation }: Props) {
           <Text style={{ color: theme.colors.muted, fontSize: 13 }}>
             You've spent ${spent.toFixed(2)} of your day so far.
           </Text>
+          {spent > 0 && (
+            <Text style={{ color: theme.colors.muted, fontSize: 13, marginTop: 2 }}>
+              {Math.round(coverage * 100)}% of it tracked
+            </Text>
+          )}
+          {renderSleepDebt()}
+        </View>
+        {eveningBeforeBed && !inBed && (
+          <TouchableOpacity onPress={goToBedNow} style={{ marginTop: theme.spacing(2), padding: 14, borderRadius: 12, backgroundColor: theme.colors.card, alignItems: 'center' }}>
+            <Text style={{ color: theme.colors.text, fontSize: 16, fontWeight: '700' }}>🛏️ I'm going to bed now</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  function renderSleepDebt(color = theme.colors.red) {
+    if (sleepDebt <= 0) return null;
+    return (
+      <TouchableOpacity onPress={() => navigation.navigate('SleepDebt', { date: wakeDay.toISOString() })} style={{ paddingVertical: 2 }}>
+        <Text style={{ color, fontSize: 13, marginTop: 2 }}>
+          {formatDebtHours(sleepDebt)} sleep debt this week ›
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  function renderTravelDay() {
+    if (travelZones.length === 0) return null;
+    return (
+      <View style={{ marginHorizontal: theme.spacing(3), marginTop: theme.spacing(1), padding: theme.spacing(1.5), borderRadius: 12, backgroundColor: theme.colors.card }}>
+        <Text style={{ color: theme.colors.text, fontWeight: '700' }}>✈️ Travel day</Text>
+        <Text style={{ color: theme.colors.muted, fontSize: 12, marginTop: 2 }}>
+          {travelZones.map(formatTimeZoneName).join(' → ')} · times show in the zone each activity was logged in
+        </Text>
+      </View>
+    );
+  }
+
+  function renderDayNav() {
+    const label = viewingToday
+      ? 'Today'
+      : wakeDay.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+    return (
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: theme.spacing(2) }}>
+        <TouchableOpacity onPress={() => shiftDay(-1)} style={{ padding: 8 }}>
+          <Text style={{ color: theme.colors.accent, fontSize: 22, fontWeight: '700' }}>‹</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setShowDatePicker(true)} style={{ paddingVertical: 6, paddingHorizontal: 14, borderRadius: 14, backgroundColor: theme.colors.card }}>
+          <Text style={{ color: theme.colors.text, fontWeight: '600' }}>{label} ▾</Text>
+        </TouchableOpacity>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          {!viewingToday && (
+            <TouchableOpacity onPress={() => setViewDate(null)} style={{ padding: 8 }}>
+              <Text style={{ color: theme.colors.accent, fontWeight: '600' }}>Today</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => shiftDay(1)} disabled={viewingToday} style={{ padding: 8, opacity: viewingToday ? 0.3 : 1 }}>
+            <Text style={{ color: theme.colors.accent, fontSize: 22, fontWeight: '700' }}>›</Text>
+          </TouchableOpacity>
         </View>
+        {showDatePicker && (
+          <DateTimePicker
+            value={wakeDay}
+            mode="date"
+            maximumDate={new Date()}
+            display={Platform.OS === 'ios' ? 'inline' : 'default'}
+            onChange={(_e, d) => {
+              setShowDatePicker(false);
+              if (d) showDay(d);
+            }}
+          />
+        )}
       </View>
     );
   }
 
   function renderGoals() {
-    const goals = settings.goals || { good: 70, bad: 30, selfcare: 70 };
-    const categories: Array<{ type: CategoryType; label: string }> = [
-      { type: 'selfcare', label: 'Self-Care' },
-      { type: 'bad', label: 'Bad' },
-      { type: 'good', label: 'Good' },
-    ];
-
     return (
       <TouchableOpacity
-        onPress={() => {/* TODO: Open weekly summary */ }}
+        onPress={() => navigation.navigate('WeeklySummary', { date: wakeDay.toISOString() })}
         style={{ paddingHorizontal: theme.spacing(3), paddingVertical: theme.spacing(2) }}
         activeOpacity={0.7}
       >
-        <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(2) }}>
-          Goals
-        </Text>
-        {categories.map(({ type, label }) => {
-          const current = categoryTotals[type];
-          const target = goals[type];
-          const progress = Math.min(current / target, 1);
-          const color = categoryColor(type);
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: theme.spacing(2) }}>
+          <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700' }}>Goals</Text>
+          <TouchableOpacity onPress={() => navigation.navigate('Streaks', { date: wakeDay.toISOString() })} style={{ padding: 4 }}>
+            <Text style={{ color: theme.colors.accent, fontWeight: '600' }}>Streaks ›</Text>
+          </TouchableOpacity>
+        </View>
+        {goalCategories.map((category) => {
+          const current = goalTotals[category.id] ?? 0;
+          const target = category.goal;
+          const { fraction: progress, state } = goalProgress(category.polarity, current, target);
+          // Caps are warnings rather than progress: yellow as they fill up, red once over
+          const isCap = category.polarity === 'less';
+          const color = state === 'over' ? theme.colors.red : state === 'near' ? theme.colors.yellow : isCap ? theme.colors.muted : category.color;
 
           return (
-            <View key={type} style={{ marginBottom: theme.spacing(2) }}>
+            <View key={category.id} style={{ marginBottom: theme.spacing(2) }}>
               <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 }}>
-                <Text style={{ color: theme.colors.text, fontSize: 14, fontWeight: '600' }}>{label}</Text>
-                <Text style={{ color: theme.colors.muted, fontSize: 14 }}>
-                  ${current.toFixed(2)} / ${target.toFixed(2)}
+                <Text style={{ color: theme.colors.text, fontSize: 14, fontWeight: '600' }}>
+                  {category.name}
+                  <Text style={{ color: theme.colors.muted, fontSize: 12, fontWeight: '400' }}>  {GOAL_PERIOD_LABELS[category.goalPeriod]}</Text>
+                </Text>
+                <Text style={{ color: state === 'over' ? theme.colors.red : state === 'near' ? theme.colors.yellow : theme.colors.muted, fontSize: 14 }}>
+                  {isCap
+                    ? state === 'over'
+                      ? `$${(current - target).toFixed(2)} over $${target.toFixed(2)} limit`
+                      : `$${current.toFixed(2)} of $${target.toFixed(2)} limit`
+                    : `$${current.toFixed(2)} / $${target.toFixed(2)}`}
                 </Text>
               </View>
               {/* Progress Bar */}
@@ -219,15 +515,85 @@ export default function HomeScreen({ navigation }: Props) {
             </View>
           );
         })}
+        {/* Template budgets, one line each */}
+        {budgetTemplates.map((template) => {
+          const budget = template.budget!;
+          const current = budgetTotals[template.id] ?? 0;
+          const { state } = goalProgress(budget.polarity, current, budget.amount);
+          return (
+            <View key={template.id} style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 }}>
+              <Text style={{ color: theme.colors.text, fontSize: 13 }}>
+                {template.name}
+              </Text>
+              <Text style={{ color: state === 'over' ? theme.colors.red : state === 'near' ? theme.colors.yellow : state === 'met' ? theme.colors.green : theme.colors.muted, fontSize: 13 }}>
+                ${current.toFixed(2)} {budget.polarity === 'less' ? '≤' : '≥'} ${budget.amount.toFixed(2)}{GOAL_PERIOD_SUFFIXES[budget.period]}
+              </Text>
+            </View>
+          );
+        })}
       </TouchableOpacity>
     );
   }
 
+  function renderRunningCard(a: Activity) {
+    const color = categoryColor(a.categoryType);
+    return (
+      <View key={a.id} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing(2), paddingLeft: theme.spacing(2) }}>
+        <View style={{ width: 40, alignItems: 'center', marginRight: theme.spacing(2) }}>
+          <View style={{ width: 16, height: 16, borderRadius: 8, backgroundColor: color, borderWidth: 3, borderColor: theme.colors.background }} />
+        </View>
+
+        <View style={{ flex: 1, backgroundColor: theme.colors.card, borderRadius: 20, borderWidth: 2, borderColor: color, ...theme.shadow, marginRight: theme.spacing(2), padding: theme.spacing(2) }}>
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+            <View style={{ flex: 1 }}>
+              <Text style={{ color, fontSize: 12, fontWeight: '700', letterSpacing: 0.5 }}>● RUNNING</Text>
+              <Text style={{ color: theme.colors.text, fontSize: 16, fontWeight: '600', marginTop: 2 }}>{a.name}</Text>
+            </View>
+            <Text style={{ color: theme.colors.text, fontSize: 32, fontWeight: '900', letterSpacing: -1, marginLeft: theme.spacing(2) }}>
+              ${a.cost.toFixed(2)}
+            </Text>
+          </View>
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 4 }}>
+            <Text style={{ color: theme.colors.muted, fontSize: 14 }}>Since {formatTime12h(new Date(a.startTime), a.timeZone)}</Text>
+            <TouchableOpacity onPress={() => stopRunningActivity(a.id, new Date())} style={{ paddingVertical: 6, paddingHorizontal: 14, borderRadius: 14, backgroundColor: theme.colors.red }}>
+              <Text style={{ color: '#FFF', fontWeight: '700' }}>■ Stop</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  function renderGap(gap: TimeGap) {
+    return (
+      <View key={`gap-${gap.start.getTime()}`} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing(2), paddingLeft: theme.spacing(2) }}>
+        <View style={{ width: 40, alignItems: 'center', marginRight: theme.spacing(2) }}>
+          <View style={{ width: 12, height: 12, borderRadius: 6, borderWidth: 2, borderColor: theme.colors.divider, backgroundColor: theme.colors.background }} />
+        </View>
+        <TouchableOpacity
+          onPress={() => onGapPress(gap)}
+          style={{ flex: 1, borderRadius: 20, borderWidth: 1, borderStyle: 'dashed', borderColor: theme.colors.muted, padding: theme.spacing(2), marginRight: theme.spacing(2) }}
+        >
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Text style={{ color: theme.colors.muted, fontSize: 15, fontWeight: '600' }}>Unaccounted</Text>
+            <Text style={{ color: theme.colors.muted, fontSize: 20, fontWeight: '800' }}>${gap.hours.toFixed(2)}</Text>
+          </View>
+          <Text style={{ color: theme.colors.muted, marginTop: 4, fontSize: 13 }}>
+            {formatTime12h(gap.start)} - {formatTime12h(gap.end)} · tap to log
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   function renderCard(a: Activity) {
     const s = new Date(a.startTime);
     const e = new Date(a.endTime);
     const leftColor = categoryColor(a.categoryType);
-    const activityCost = durationHoursAcrossMidnight(a.startTime, a.endTime);
+    // Multitasked activities are charged their share, not the full duration
+    const activityCost = a.multitask?.length ? a.cost : computeCost(a.startTime, a.endTime);
+    const overlaps = overlappingIds.has(a.id);
+    const overBudget = !!a.templateId && overBudgetIds.has(a.templateId);
 
     return (
       <View key={a.id} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing(2), paddingLeft: theme.spacing(2) }}>
@@ -245,7 +611,7 @@ export default function HomeScreen({ navigation }: Props) {
 
         {/* Activity Card */}
         <TouchableOpacity
-          onPress={() => { setEditing(a); setModalVisible(true); }}
+          onPress={() => { setEditing(a); setPrefill(null); setModalVisible(true); }}
           style={{
             flex: 1,
             backgroundColor: theme.colors.card,
@@ -258,14 +624,36 @@ export default function HomeScreen({ navigation }: Props) {
           <View style={{ height: '100%', width: 4, backgroundColor: leftColor, position: 'absolute', left: 0, top: 0, bottom: 0 }} />
           <View style={{ padding: theme.spacing(2), paddingLeft: theme.spacing(2) + 8 }}>
             <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start' }}>
-              <Text style={{ color: theme.colors.text, fontSize: 16, fontWeight: '600', flex: 1 }}>{a.name}</Text>
+              <View style={{ flex: 1, flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap' }}>
+                <Text style={{ color: theme.colors.text, fontSize: 16, fontWeight: '600', marginRight: 8 }}>{a.name}</Text>
+                {overBudget && (
+                  <View style={{ backgroundColor: theme.colors.red, borderRadius: 999, paddingHorizontal: 8, paddingVertical: 2 }}>
+                    <Text style={{ color: '#FFF', fontSize: 11, fontWeight: '700' }}>OVER BUDGET</Text>
+                  </View>
+                )}
+              </View>
               <Text style={{ color: theme.colors.text, fontSize: 32, fontWeight: '900', letterSpacing: -1, marginLeft: theme.spacing(2) }}>
                 ${activityCost.toFixed(2)}
               </Text>
             </View>
             <Text style={{ color: theme.colors.muted, marginTop: 4, fontSize: 14 }}>
-              {formatTime12h(s)} - {formatTime12h(e)}
+              {formatTime12h(s, a.timeZone)} - {formatTime12h(e, a.timeZone)}
+              {a.timeZone && a.timeZone !== currentTimeZone() ? ` ${formatTimeZoneName(a.timeZone)}` : ''}
+              {a.multitask?.length ? '  · multitasking' : ''}
             </Text>
+            {overlaps && (
+              <Text style={{ color: theme.colors.red, marginTop: 4, fontSize: 13, fontWeight: '600' }}>
+                ⚠ Overlaps another activity · tap to fix
+              </Text>
+            )}
+            {!!a.tags?.length && (
+              <Text style={{ color: theme.colors.accent, marginTop: 4, fontSize: 13, fontWeight: '600' }}>
+                {a.tags.map((t) => `#${t}`).join('  ')}
+              </Text>
+            )}
+            {!!a.notes && (
+              <Text style={{ color: theme.colors.muted, marginTop: 4, fontSize: 13 }} numberOfLines={2}>{a.notes}</Text>
+            )}
           </View>
         </TouchableOpacity>
       </View>
@@ -277,8 +665,11 @@ export default function HomeScreen({ navigation }: Props) {
       {/* Header */}
       {renderHeader()}
 
+      {renderDayNav()}
+      {renderTravelDay()}
+
       {/* Goals Section */}
-      {!sleeping && renderGoals()}
+      {renderGoals()}
 
       {/* DEBUG TOOLS - Commented out for production, uncomment for debugging
       <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: theme.spacing(2), marginBottom: theme.spacing(1) }}>
@@ -313,7 +704,6 @@ export default function HomeScreen({ navigation }: Props) {
             });
             await saveActivities(filtered);
             console.log(`🗑️ RESET TODAY: Removed ${allActivities.length - filtered.length} activities from today`);
-            await refresh();
             alert(`Reset today! Removed ${allActivities.length - filtered.length} activities.`);
           }} style={{ padding: 8 }}>
             <Text style={{ color: '#F44336', fontSize: 12 }}>Reset Today</Text>
@@ -323,7 +713,7 @@ export default function HomeScreen({ navigation }: Props) {
       */}
 
       {/* Activity list with Timeline */}
-      <ScrollView contentContainerStyle={{ paddingTop: theme.spacing(3), paddingBottom: theme.spacing(32) }}>
+      <ScrollView {...swipe.panHandlers} contentContainerStyle={{ paddingTop: theme.spacing(3), paddingBottom: theme.spacing(32) }}>
         <View style={{ position: 'relative' }}>
           {/* Vertical Timeline Line */}
           <View style={{
@@ -348,7 +738,7 @@ export default function HomeScreen({ navigation }: Props) {
               }} />
             </View>
             <Text style={{ color: theme.colors.muted, fontSize: 14, fontWeight: '600' }}>
-              $0 ({formatTimeShort(settings.bedtime)})
+              $0 ({formatTimeShort(sleepTimes.bedtime)})
             </Text>
           </View>
 
@@ -363,20 +753,21 @@ export default function HomeScreen({ navigation }: Props) {
           */}
 
           {/* Motivational Message for Empty Day */}
-          {todaysActivities.length === 0 && (
+          {todaysActivities.length === 0 && liveActivities.length === 0 && (
             <View style={{ paddingHorizontal: theme.spacing(6), paddingVertical: theme.spacing(4), alignItems: 'center' }}>
               <Text style={{ color: theme.colors.text, fontSize: 24, fontWeight: '700', textAlign: 'center', marginBottom: theme.spacing(1) }}>
-                Ready for a fresh start! ✨
+                {viewingToday ? 'Ready for a fresh start! ✨' : 'Nothing logged this day'}
               </Text>
               <Text style={{ color: theme.colors.muted, fontSize: 16, textAlign: 'center', lineHeight: 24 }}>
-                Start tracking your day by tapping the "+ Add" button below.
+                {viewingToday ? 'Start tracking your day by tapping the "+ Add" button below.' : 'Tap "+ Add" to fill it in after the fact.'}
               </Text>
             </View>
           )}
 
-          {todaysActivities.map(renderCard)}
+          {liveActivities.map(renderRunningCard)}
+          {timeline.map((item) => ('gap' in item ? renderGap(item.gap) : renderCard(item.activity)))}
 
-          {/* Timeline End: Wake time ($16) at bottom */}
+          {/* Timeline End: Wake time (the day's full budget) at bottom */}
           <View style={{ flexDirection: 'row', alignItems: 'center', paddingLeft: theme.spacing(2), marginTop: theme.spacing(2) }}>
             <View style={{ width: 40, alignItems: 'center', marginRight: theme.spacing(2) }}>
               <View style={{
@@ -389,7 +780,7 @@ export default function HomeScreen({ navigation }: Props) {
               }} />
             </View>
             <Text style={{ color: theme.colors.muted, fontSize: 14, fontWeight: '600' }}>
-              $16 ({formatTimeShort(settings.wakeTime)})
+              ${round2(awakeHoursBetween(wakeDay, bedDay, settings))} ({formatTimeShort(sleepTimes.wakeTime)})
             </Text>
           </View>
         </View>
@@ -447,11 +838,16 @@ export default function HomeScreen({ navigation }: Props) {
         visible={modalVisible}
         onClose={() => setModalVisible(false)}
         onSave={handleSave}
+        onSaveMany={handleSaveMany}
         onDelete={editing ? handleDelete : undefined}
+        onStart={viewingToday ? handleStart : undefined}
         templates={templates}
         categories={categories}
         initial={editing}
-        baseDay={dayWindow.start}
+        activities={activities}
+        budgetTotals={budgetTotals}
+        prefill={prefill}
+        baseDay={wakeDay}
         settings={settings}
       />
     </View>
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Share, Alert } from 'react-native';
+import { useTheme } from '../useTheme';
+import { QuarantineEntry } from '../types';
+import { clearQuarantine, loadQuarantine, markQuarantineReviewed } from '../storage';
+
+interface Props {
+  onDone: () => void;
+}
+
+// Shown on launch when stored data failed to load, so nothing is lost silently
+export default function RecoveryScreen({ onDone }: Props) {
+  const { theme } = useTheme();
+  const [entries, setEntries] = useState<QuarantineEntry[]>([]);
+
+  useEffect(() => {
+    loadQuarantine().then(setEntries);
+  }, []);
+
+  async function shareEntry(entry: QuarantineEntry) {
+    await Share.share({ message: entry.raw });
+  }
+
+  async function shareAll() {
+    await Share.share({ message: JSON.stringify(entries, null, 2) });
+  }
+
+  async function keepAndContinue() {
+    await markQuarantineReviewed();
+    onDone();
+  }
+
+  function discardAndContinue() {
+    Alert.alert(
+      'Discard damaged data?',
+      'The quarantined data will be deleted permanently. Share it first if you want to keep a copy.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await clearQuarantine();
+            onDone();
+          },
+        },
+      ]
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: theme.colors.background }}>
+      <ScrollView contentContainerStyle={{ padding: theme.spacing(2), paddingTop: theme.spacing(8), paddingBottom: theme.spacing(4) }}>
+        <Text style={{ color: theme.colors.text, fontSize: 24, fontWeight: '700', marginBottom: theme.spacing(1) }}>
+          Some data couldn't be loaded
+        </Text>
+        <Text style={{ color: theme.colors.muted, fontSize: 14, lineHeight: 20, marginBottom: theme.spacing(3) }}>
+          We set aside {entries.length} damaged item{entries.length === 1 ? '' : 's'} instead of deleting {entries.length === 1 ? 'it' : 'them'}.
+          Everything else is safe. Share a copy below if you'd like to keep or repair it.
+        </Text>
+
+        {entries.map((entry) => (
+          <View key={entry.id} style={{ backgroundColor: theme.colors.card, padding: theme.spacing(2), borderRadius: 10, marginBottom: theme.spacing(1), borderLeftWidth: 4, borderLeftColor: theme.colors.yellow }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 }}>
+              <Text style={{ color: theme.colors.text, fontWeight: '600' }}>{entry.key}</Text>
+              <TouchableOpacity onPress={() => shareEntry(entry)} style={{ padding: 4 }}>
+                <Text style={{ color: theme.colors.accent }}>Share</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: 6 }}>
+              {entry.reason} · {new Date(entry.quarantinedAt).toLocaleString()}
+            </Text>
+            <Text numberOfLines={3} style={{ color: theme.colors.muted, fontSize: 11, fontFamily: 'monospace' }}>{entry.raw}</Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={{ padding: theme.spacing(2), paddingBottom: theme.spacing(6), backgroundColor: theme.colors.card, borderTopWidth: 1, borderTopColor: theme.colors.divider }}>
+        <TouchableOpacity onPress={shareAll} style={{ padding: 14, borderRadius: 12, backgroundColor: theme.colors.divider, marginBottom: theme.spacing(1) }}>
+          <Text style={{ color: theme.colors.text, textAlign: 'center', fontWeight: '600' }}>Share All</Text>
+        </TouchableOpacity>
+        <View style={{ flexDirection: 'row' }}>
+          <TouchableOpacity onPress={discardAndContinue} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.red, marginRight: theme.spacing(1) }}>
+            <Text style={{ color: '#FFF', textAlign: 'center', fontWeight: '600' }}>Discard</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={keepAndContinue} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.accent, marginLeft: theme.spacing(1) }}>
+            <Text style={{ color: theme.colors.accentText, textAlign: 'center', fontWeight: '700' }}>Keep & Continue</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -1,51 +1,57 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, TextInput, Platform, Modal } from 'react-native';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, Platform, Modal, Alert } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import ColorPicker from 'react-native-wheel-color-picker';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
 import { ThemeMode } from '../theme';
 import { useTheme } from '../useTheme';
-import { ActivityTemplate, Category, CategoryType, UserSettings, TimeReference } from '../types';
-import { loadActivityTemplates, loadCategories, loadSettings, saveActivityTemplates, saveCategories, saveSettings } from '../storage';
-import { formatTimeReference } from '../utils/time';
-
-export default function SettingsScreen() {
-  const { theme, themeMode, reloadTheme } = useTheme();
-  const [settings, setSettings] = useState<UserSettings>({
-    bedtime: '23:00',
-    wakeTime: '07:00',
-    themeMode: 'system',
-    goals: { good: 70, bad: 30, selfcare: 70 },
-    weekEndsOn: 'sunday'
-  });
-  const [templates, setTemplates] = useState<ActivityTemplate[]>([]);
-  const [categories, setCategories] = useState<Record<CategoryType, Category>>({
-    good: { name: 'Good Time', color: '#4CAF50' },
-    bad: { name: 'Bad Time', color: '#F44336' },
-    selfcare: { name: 'Self Care', color: '#FFC107' },
-  });
+import { ActivityTemplate, Category, CategoryPolarity, CategoryType, NapTimes, SleepRotation, SleepTimes, UserSettings, TimeReference, Weekday } from '../types';
+import { applyTemplateToActivities, countActivitiesForTemplate, saveActivityTemplates, saveCategories, saveSettings } from '../storage';
+import { useCategories, useSettings, useTemplates } from '../store';
+import { formatTimeReference, fromDateKey, getRotationDay, getSleepTimes, toDateKey } from '../utils/time';
+import { defaultCategoryId, orderedCategories } from '../utils/categories';
+import { GOAL_PERIODS, GOAL_PERIOD_SUFFIXES } from '../utils/goals';
+import { pickTextFile, shareTextFile } from '../utils/files';
+import { Backup, BackupDiff, BackupError, RestoreMode, backupFilename, createBackup, diffBackup, parseBackup, restoreBackup } from '../backup';
+import RestoreBackupModal from '../components/RestoreBackupModal';
+import ExportModal from '../components/ExportModal';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Settings'>;
+
+type SleepField = 'wakeTime' | 'bedtime';
+
+export default function SettingsScreen({ navigation }: Props) {
+  const { theme } = useTheme();
+  const storedSettings = useSettings();
+  const storedTemplates = useTemplates();
+  const storedCategories = useCategories();
+
+  // Local drafts so edits can be reviewed before pressing Save; they
+  // re-sync whenever the store changes underneath
+  const [settings, setSettings] = useState<UserSettings>(storedSettings);
+  const [templates, setTemplates] = useState<ActivityTemplate[]>(storedTemplates);
+  const [categories, setCategories] = useState<Record<CategoryType, Category>>(storedCategories);
+
+  useEffect(() => setSettings(storedSettings), [storedSettings]);
+  useEffect(() => setTemplates(storedTemplates), [storedTemplates]);
+  useEffect(() => setCategories(storedCategories), [storedCategories]);
 
   const [showWakePicker, setShowWakePicker] = useState(false);
   const [showBedPicker, setShowBedPicker] = useState(false);
+  // Weekday the time cards are editing; null edits the usual times
+  const [scheduleDay, setScheduleDay] = useState<Weekday | null>(null);
+  const [showOverrideDatePicker, setShowOverrideDatePicker] = useState(false);
+  const [editingOverride, setEditingOverride] = useState<{ date: string; field: SleepField } | null>(null);
+  const [editingNap, setEditingNap] = useState<{ idx: number; field: keyof NapTimes } | null>(null);
+  const [editingRotationDay, setEditingRotationDay] = useState<{ idx: number; field: SleepField } | null>(null);
+  const [showRotationStartPicker, setShowRotationStartPicker] = useState(false);
   const [colorPickerVisible, setColorPickerVisible] = useState(false);
   const [editingColorType, setEditingColorType] = useState<CategoryType | null>(null);
   const [tempColor, setTempColor] = useState<string>('#4CAF50');
   const [editingQuickActivityTime, setEditingQuickActivityTime] = useState<{ idx: number, field: 'start' | 'end' } | null>(null);
-
-  useEffect(() => {
-    (async () => {
-      const [s, t, c] = await Promise.all([loadSettings(), loadActivityTemplates(), loadCategories()]);
-      if (s) {
-        setSettings({
-          ...s,
-          themeMode: s.themeMode || 'system',
-          goals: s.goals || { good: 70, bad: 30, selfcare: 70 },
-          weekEndsOn: s.weekEndsOn || 'sunday'
-        });
-      }
-      setTemplates(t);
-      setCategories(c);
-    })();
-  }, []);
+  const [pendingRestore, setPendingRestore] = useState<{ backup: Backup; diff: BackupDiff } | null>(null);
+  const [exportVisible, setExportVisible] = useState(false);
 
   function hhmmToDate(hhmm: string): Date {
     const d = new Date();
@@ -71,19 +77,60 @@ export default function SettingsScreen() {
   async function persistSettings(next: UserSettings) {
     setSettings(next);
     await saveSettings(next);
-    // Force immediate re-render by updating state
-    // This ensures HomeScreen picks up changes when navigating back
+  }
+
+  const usualTimes: SleepTimes = { bedtime: settings.bedtime, wakeTime: settings.wakeTime, naps: settings.naps };
+  const cardTimes: SleepTimes = scheduleDay ? settings.weeklySleep?.[scheduleDay] ?? usualTimes : usualTimes;
+
+  async function saveCardTime(field: SleepField, value: string) {
+    if (!scheduleDay) {
+      await persistSettings({ ...settings, [field]: value });
+      return;
+    }
+    await persistSettings({ ...settings, weeklySleep: { ...settings.weeklySleep, [scheduleDay]: { ...cardTimes, [field]: value } } });
+  }
+
+  async function saveCardNaps(naps: NapTimes[]) {
+    if (!scheduleDay) {
+      await persistSettings({ ...settings, naps });
+      return;
+    }
+    await persistSettings({ ...settings, weeklySleep: { ...settings.weeklySleep, [scheduleDay]: { ...cardTimes, naps } } });
+  }
+
+  async function resetScheduleDay(day: Weekday) {
+    const { [day]: _removed, ...rest } = settings.weeklySleep ?? {};
+    await persistSettings({ ...settings, weeklySleep: rest });
+  }
+
+  async function saveOverride(date: string, times: SleepTimes | null) {
+    const { [date]: _removed, ...rest } = settings.sleepOverrides ?? {};
+    await persistSettings({ ...settings, sleepOverrides: times ? { ...rest, [date]: times } : rest });
+  }
+
+  async function saveRotation(rotation: SleepRotation | null) {
+    await persistSettings({ ...settings, sleepRotation: rotation ?? undefined });
+  }
+
+  async function saveRotationDay(idx: number, times: SleepTimes | null) {
+    const rotation = settings.sleepRotation!;
+    await saveRotation({ ...rotation, days: rotation.days.map((d, i) => (i === idx ? times : d)) });
+  }
+
+  // Four night shifts, sleeping through the morning, then four days off. The last day off
+  // stays up late and the first shift has a nap before work; the first day off starts with
+  // a short morning sleep. Without those, each switch leaves a night far too long or one
+  // that ends before it starts.
+  async function applyNightShiftPreset() {
+    const lastDayOff: SleepTimes = { wakeTime: settings.wakeTime, bedtime: '03:00' };
+    const firstNight: SleepTimes = { wakeTime: '11:00', bedtime: '08:00', naps: [{ start: '16:00', end: '19:00' }] };
+    const night: SleepTimes = { wakeTime: '15:00', bedtime: '08:00' };
+    const firstDayOff: SleepTimes = { wakeTime: '13:00', bedtime: settings.bedtime };
+    await saveRotation({ startDate: toDateKey(new Date()), days: [firstNight, night, night, night, firstDayOff, null, null, lastDayOff] });
   }
 
   async function setTheme(mode: ThemeMode) {
-    console.log('🎨 Setting theme to:', mode);
-    const newSettings = { ...settings, themeMode: mode };
-    setSettings(newSettings);
-    await saveSettings(newSettings);
-    console.log('✅ Theme saved:', mode);
-    // Force immediate theme reload
-    await reloadTheme();
-    console.log('🔄 Theme reloaded');
+    await persistSettings({ ...settings, themeMode: mode });
   }
 
   function updateTemplate(idx: number, patch: Partial<ActivityTemplate>) {
@@ -95,18 +142,41 @@ export default function SettingsScreen() {
   }
 
   async function saveAllTemplates() {
+    const changed = templates.filter((t) => {
+      const before = storedTemplates.find((s) => s.id === t.id);
+      return before && (before.name !== t.name || before.categoryType !== t.categoryType);
+    });
     await saveActivityTemplates(templates);
+
+    // Renames and category changes only apply going forward unless asked
+    const count = (await Promise.all(changed.map((t) => countActivitiesForTemplate(t.id)))).reduce((sum, n) => sum + n, 0);
+    if (count === 0) return;
+    Alert.alert(
+      'Update past activities?',
+      `${count} past ${count === 1 ? 'activity was' : 'activities were'} logged as ${changed.length === 1 ? `"${changed[0].name}"` : 'the activities you changed'}. Update ${count === 1 ? 'it' : 'them'} to the new name and category?`,
+      [
+        { text: 'Keep As Logged', style: 'cancel' },
+        {
+          text: 'Update',
+          onPress: async () => {
+            for (const t of changed) await applyTemplateToActivities(t);
+          },
+        },
+      ]
+    );
   }
 
   function addTemplate() {
     const newTemplate: ActivityTemplate = {
       id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       name: 'New Activity',
-      categoryType: 'good',
+      categoryType: defaultCategoryId(categories),
     };
     setTemplates((prev) => [...prev, newTemplate]);
   }
 
+  // Only templates that were never saved can be removed; saved ones are
+  // archived so past activities keep resolving them
   function removeTemplate(id: string) {
     setTemplates((prev) => prev.filter((t) => t.id !== id));
   }
@@ -119,6 +189,28 @@ export default function SettingsScreen() {
     await saveCategories(categories);
   }
 
+  async function saveGoals() {
+    await saveCategories(categories);
+  }
+
+  function addCategory() {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const order = Math.max(-1, ...Object.values(categories).map((c) => c.order)) + 1;
+    setCategories((prev) => ({ ...prev, [id]: { id, name: 'New Category', color: '#607D8B', goal: 0, goalPeriod: 'weekly', polarity: 'more', order } }));
+  }
+
+  // Swaps a category with its neighbour, then renumbers so orders stay dense
+  function moveCategory(type: CategoryType, direction: -1 | 1) {
+    setCategories((prev) => {
+      const list = orderedCategories(prev, true);
+      const idx = list.findIndex((c) => c.id === type);
+      const target = idx + direction;
+      if (idx < 0 || target < 0 || target >= list.length) return prev;
+      [list[idx], list[target]] = [list[target], list[idx]];
+      return Object.fromEntries(list.map((c, order) => [c.id, { ...c, order }]));
+    });
+  }
+
   function openColorPicker(type: CategoryType) {
     setEditingColorType(type);
     setTempColor(categories[type]?.color ?? '#4CAF50');
@@ -133,6 +225,38 @@ export default function SettingsScreen() {
     setEditingColorType(null);
   }
 
+  async function exportBackup() {
+    try {
+      const backup = await createBackup();
+      await shareTextFile(backupFilename(backup), JSON.stringify(backup, null, 2), 'application/json');
+    } catch (e) {
+      Alert.alert('Could not export backup', e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function importBackup() {
+    try {
+      const file = await pickTextFile(['application/json', 'text/plain']);
+      if (!file) return;
+      const backup = parseBackup(file.text);
+      setPendingRestore({ backup, diff: await diffBackup(backup) });
+    } catch (e) {
+      Alert.alert('Could not read backup', e instanceof BackupError ? e.message : String(e));
+    }
+  }
+
+  async function applyRestore(mode: RestoreMode) {
+    if (!pendingRestore) return;
+    try {
+      await restoreBackup(pendingRestore.backup, mode);
+    } catch (e) {
+      Alert.alert('Could not restore backup', e instanceof Error ? e.message : String(e));
+      return;
+    }
+    setPendingRestore(null);
+    Alert.alert('Backup restored', mode === 'merge' ? 'New entries were merged in.' : 'This device now matches the backup.');
+  }
+
   return (
     <ScrollView style={{ flex: 1, backgroundColor: theme.colors.background }} contentContainerStyle={{ padding: theme.spacing(2), paddingBottom: theme.spacing(12) }}>
       <Text style={{ color: theme.colors.text, fontSize: 24, fontWeight: '700', marginBottom: theme.spacing(3) }}>Settings</Text>
@@ -167,8 +291,38 @@ export default function SettingsScreen() {
         })}
       </View>
 
+      {/* Sleep schedule: the cards edit the usual times or one weekday's */}
+      <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Sleep Schedule</Text>
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: theme.spacing(2) }}>
+        {([null, 'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as (Weekday | null)[]).map((day) => {
+          const isSelected = scheduleDay === day;
+          const custom = !!day && !!settings.weeklySleep?.[day];
+          return (
+            <TouchableOpacity
+              key={day ?? 'usual'}
+              onPress={() => setScheduleDay(day)}
+              style={{
+                minWidth: 36,
+                height: 36,
+                paddingHorizontal: day ? 0 : 10,
+                borderRadius: 18,
+                backgroundColor: isSelected ? theme.colors.accent : theme.colors.divider,
+                alignItems: 'center',
+                justifyContent: 'center',
+                borderWidth: custom ? 2 : 0,
+                borderColor: theme.colors.accent,
+              }}
+            >
+              <Text style={{ color: isSelected ? theme.colors.accentText : theme.colors.text, fontWeight: isSelected ? '700' : '400' }}>
+                {day ? day.charAt(0).toUpperCase() : 'Usual'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
       {/* Horizontal Time Cards */}
-      <View style={{ flexDirection: 'row', marginBottom: theme.spacing(3) }}>
+      <View style={{ flexDirection: 'row', marginBottom: theme.spacing(1) }}>
         {/* Wake Time Card */}
         <View style={{
           flex: 1,
@@ -184,18 +338,18 @@ export default function SettingsScreen() {
 
           <Text style={{ color: '#D97706', fontSize: 18, fontWeight: '700', marginBottom: theme.spacing(1) }}>Wake Time</Text>
           <TouchableOpacity onPress={() => setShowWakePicker(true)} style={{ padding: 14, backgroundColor: 'rgba(255,255,255,0.7)', borderRadius: 12 }}>
-            <Text style={{ color: '#92400E', textAlign: 'center', fontSize: 20, fontWeight: '600' }}>{format12h(hhmmToDate(settings.wakeTime))}</Text>
+            <Text style={{ color: '#92400E', textAlign: 'center', fontSize: 20, fontWeight: '600' }}>{format12h(hhmmToDate(cardTimes.wakeTime))}</Text>
           </TouchableOpacity>
           {showWakePicker && (
             <DateTimePicker
-              value={hhmmToDate(settings.wakeTime)}
+              value={hhmmToDate(cardTimes.wakeTime)}
               mode="time"
               is24Hour={false}
               display={Platform.OS === 'ios' ? 'spinner' : 'default'}
               onChange={async (_e, d) => {
                 setShowWakePicker(false);
                 if (d) {
-                  await persistSettings({ ...settings, wakeTime: dateToHHmm(d) });
+                  await saveCardTime('wakeTime', dateToHHmm(d));
                 }
               }}
             />
@@ -217,18 +371,18 @@ export default function SettingsScreen() {
 
           <Text style={{ color: '#F3E8FF', fontSize: 18, fontWeight: '700', marginBottom: theme.spacing(1) }}>Bedtime</Text>
           <TouchableOpacity onPress={() => setShowBedPicker(true)} style={{ padding: 14, backgroundColor: 'rgba(255,255,255,0.15)', borderRadius: 12 }}>
-            <Text style={{ color: '#FFFFFF', textAlign: 'center', fontSize: 20, fontWeight: '600' }}>{format12h(hhmmToDate(settings.bedtime))}</Text>
+            <Text style={{ color: '#FFFFFF', textAlign: 'center', fontSize: 20, fontWeight: '600' }}>{format12h(hhmmToDate(cardTimes.bedtime))}</Text>
           </TouchableOpacity>
           {showBedPicker && (
             <DateTimePicker
-              value={hhmmToDate(settings.bedtime)}
+              value={hhmmToDate(cardTimes.bedtime)}
               mode="time"
               is24Hour={false}
               display={Platform.OS === 'ios' ? 'spinner' : 'default'}
               onChange={async (_e, d) => {
                 setShowBedPicker(false);
                 if (d) {
-                  await persistSettings({ ...settings, bedtime: dateToHHmm(d) });
+                  await saveCardTime('bedtime', dateToHHmm(d));
                 }
               }}
             />
@@ -236,43 +390,259 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      {/* Naps are taken out of the waking day's budget */}
+      <View style={{ backgroundColor: theme.colors.card, borderRadius: 12, padding: theme.spacing(2), marginBottom: scheduleDay ? theme.spacing(1) : theme.spacing(3) }}>
+        {(cardTimes.naps ?? []).map((nap, idx) => (
+          <View key={idx} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing(1) }}>
+            <Text style={{ color: theme.colors.text, flex: 1, fontWeight: '600' }}>😴 Nap</Text>
+            {(['start', 'end'] as (keyof NapTimes)[]).map((field) => (
+              <TouchableOpacity key={field} onPress={() => setEditingNap({ idx, field })} style={{ paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: theme.colors.background, marginLeft: 6 }}>
+                <Text style={{ color: theme.colors.text, fontSize: 13 }}>{field === 'start' ? 'From' : 'To'} {format12h(hhmmToDate(nap[field]))}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity onPress={() => saveCardNaps((cardTimes.naps ?? []).filter((_, i) => i !== idx))} style={{ padding: 8 }}>
+              <Text style={{ color: theme.colors.red }}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        {editingNap && cardTimes.naps?.[editingNap.idx] && (
+          <DateTimePicker
+            value={hhmmToDate(cardTimes.naps[editingNap.idx][editingNap.field])}
+            mode="time"
+            is24Hour={false}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={async (_e, d) => {
+              const editing = editingNap;
+              setEditingNap(null);
+              if (d) await saveCardNaps(cardTimes.naps!.map((n, i) => (i === editing.idx ? { ...n, [editing.field]: dateToHHmm(d) } : n)));
+            }}
+          />
+        )}
+        <TouchableOpacity onPress={() => saveCardNaps([...(cardTimes.naps ?? []), { start: '13:00', end: '13:30' }])} style={{ padding: 10, borderRadius: 8, backgroundColor: theme.colors.divider, alignItems: 'center' }}>
+          <Text style={{ color: theme.colors.text }}>Add Nap</Text>
+        </TouchableOpacity>
+      </View>
+
+      {scheduleDay && (
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: theme.spacing(3) }}>
+          <Text style={{ color: theme.colors.muted, fontSize: 12, textTransform: 'capitalize' }}>
+            {settings.weeklySleep?.[scheduleDay] ? `${scheduleDay}s have their own times` : `${scheduleDay}s use the usual times`}
+          </Text>
+          {settings.weeklySleep?.[scheduleDay] && (
+            <TouchableOpacity onPress={() => resetScheduleDay(scheduleDay)} style={{ padding: 4 }}>
+              <Text style={{ color: theme.colors.accent, fontSize: 12, fontWeight: '600' }}>Use usual times</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* One-off dates, e.g. an early flight */}
+      <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Date Overrides</Text>
+      <View style={{ backgroundColor: theme.colors.card, borderRadius: 12, padding: theme.spacing(2), marginBottom: theme.spacing(3) }}>
+        {Object.entries(settings.sleepOverrides ?? {}).sort(([a], [b]) => a.localeCompare(b)).map(([date, times]) => {
+          return (
+            <View key={date} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing(1) }}>
+              <Text style={{ color: theme.colors.text, flex: 1, fontWeight: '600' }}>
+                {fromDateKey(date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+              </Text>
+              {(['wakeTime', 'bedtime'] as (SleepField)[]).map((field) => (
+                <TouchableOpacity key={field} onPress={() => setEditingOverride({ date, field })} style={{ paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: theme.colors.background, marginLeft: 6 }}>
+                  <Text style={{ color: theme.colors.text, fontSize: 13 }}>{field === 'wakeTime' ? '☀️' : '🌙'} {format12h(hhmmToDate(times[field]))}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity onPress={() => saveOverride(date, null)} style={{ padding: 8 }}>
+                <Text style={{ color: theme.colors.red }}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+        {editingOverride && settings.sleepOverrides?.[editingOverride.date] && (
+          <DateTimePicker
+            value={hhmmToDate(settings.sleepOverrides[editingOverride.date][editingOverride.field])}
+            mode="time"
+            is24Hour={false}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={async (_e, d) => {
+              const editing = editingOverride;
+              setEditingOverride(null);
+              if (d) await saveOverride(editing.date, { ...settings.sleepOverrides![editing.date], [editing.field]: dateToHHmm(d) });
+            }}
+          />
+        )}
+        {showOverrideDatePicker && (
+          <DateTimePicker
+            value={new Date()}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'inline' : 'default'}
+            onChange={async (_e, d) => {
+              setShowOverrideDatePicker(false);
+              // Starts from whatever that date would have used
+              if (d) await saveOverride(toDateKey(d), getSleepTimes(d, settings));
+            }}
+          />
+        )}
+        <TouchableOpacity onPress={() => setShowOverrideDatePicker(true)} style={{ padding: 10, borderRadius: 8, backgroundColor: theme.colors.divider, alignItems: 'center' }}>
+          <Text style={{ color: theme.colors.text }}>Add Date Override</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Shift work: a repeating cycle that beats the weekday schedule */}
+      <Text style={{ color: theme.colors.muted, marginBottom: 8, fontSize: 14, fontWeight: '600' }}>Shift Rotation</Text>
+      <View style={{ backgroundColor: theme.colors.card, borderRadius: 12, padding: theme.spacing(2), marginBottom: theme.spacing(3) }}>
+        {settings.sleepRotation ? (
+          <>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: theme.spacing(1) }}>
+              <Text style={{ color: theme.colors.text, fontWeight: '600' }}>
+                Today is day {getRotationDay(new Date(), settings)! + 1} of {settings.sleepRotation.days.length}
+              </Text>
+              <TouchableOpacity onPress={() => setShowRotationStartPicker(true)} style={{ padding: 4 }}>
+                <Text style={{ color: theme.colors.accent, fontSize: 12, fontWeight: '600' }}>
+                  Day 1 was {fromDateKey(settings.sleepRotation.startDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {settings.sleepRotation.days.map((times, idx) => (
+              <View key={idx} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing(1) }}>
+                <Text style={{ color: theme.colors.text, width: 56, fontWeight: '600' }}>Day {idx + 1}</Text>
+                {times ? (
+                  <>
+                    {(['wakeTime', 'bedtime'] as SleepField[]).map((field) => (
+                      <TouchableOpacity key={field} onPress={() => setEditingRotationDay({ idx, field })} style={{ paddingVertical: 6, paddingHorizontal: 10, borderRadius: 8, backgroundColor: theme.colors.background, marginRight: 6 }}>
+                        <Text style={{ color: theme.colors.text, fontSize: 13 }}>{field === 'wakeTime' ? '☀️' : '🌙'} {format12h(hhmmToDate(times[field]))}</Text>
+                      </TouchableOpacity>
+                    ))}
+                    <View style={{ flex: 1 }} />
+                    <TouchableOpacity onPress={() => saveRotationDay(idx, null)} style={{ padding: 4 }}>
+                      <Text style={{ color: theme.colors.accent, fontSize: 12, fontWeight: '600' }}>Usual</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <>
+                    <Text style={{ color: theme.colors.muted, flex: 1, fontSize: 13 }}>Usual schedule</Text>
+                    <TouchableOpacity onPress={() => saveRotationDay(idx, { bedtime: settings.bedtime, wakeTime: settings.wakeTime })} style={{ padding: 4 }}>
+                      <Text style={{ color: theme.colors.accent, fontSize: 12, fontWeight: '600' }}>Set times</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+                {settings.sleepRotation!.days.length > 1 && (
+                  <TouchableOpacity
+                    onPress={() => saveRotation({ ...settings.sleepRotation!, days: settings.sleepRotation!.days.filter((_, i) => i !== idx) })}
+                    style={{ padding: 8 }}
+                  >
+                    <Text style={{ color: theme.colors.red }}>✕</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            {editingRotationDay && settings.sleepRotation.days[editingRotationDay.idx] && (
+              <DateTimePicker
+                value={hhmmToDate(settings.sleepRotation.days[editingRotationDay.idx]![editingRotationDay.field])}
+                mode="time"
+                is24Hour={false}
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={async (_e, d) => {
+                  const editing = editingRotationDay;
+                  setEditingRotationDay(null);
+                  if (d) await saveRotationDay(editing.idx, { ...settings.sleepRotation!.days[editing.idx]!, [editing.field]: dateToHHmm(d) });
+                }}
+              />
+            )}
+            {showRotationStartPicker && (
+              <DateTimePicker
+                value={fromDateKey(settings.sleepRotation.startDate)}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                onChange={async (_e, d) => {
+                  setShowRotationStartPicker(false);
+                  if (d) await saveRotation({ ...settings.sleepRotation!, startDate: toDateKey(d) });
+                }}
+              />
+            )}
+            <View style={{ flexDirection: 'row' }}>
+              <TouchableOpacity
+                onPress={() => saveRotation({ ...settings.sleepRotation!, days: [...settings.sleepRotation!.days, null] })}
+                style={{ flex: 1, padding: 10, borderRadius: 8, backgroundColor: theme.colors.divider, alignItems: 'center', marginRight: 6 }}
+              >
+                <Text style={{ color: theme.colors.text }}>Add Day</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => saveRotation(null)} style={{ flex: 1, padding: 10, borderRadius: 8, backgroundColor: theme.colors.divider, alignItems: 'center', marginLeft: 6 }}>
+                <Text style={{ color: theme.colors.red }}>Turn Off</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <>
+            <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(1) }}>
+              For shifts that don't follow the week. Days marked usual fall back to the schedule above; date overrides still win.
+            </Text>
+            <View style={{ flexDirection: 'row' }}>
+              <TouchableOpacity onPress={applyNightShiftPreset} style={{ flex: 1, padding: 10, borderRadius: 8, backgroundColor: theme.colors.divider, alignItems: 'center', marginRight: 6 }}>
+                <Text style={{ color: theme.colors.text }}>4 on / 4 off Nights</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => saveRotation({ startDate: toDateKey(new Date()), days: [null, null] })}
+                style={{ flex: 1, padding: 10, borderRadius: 8, backgroundColor: theme.colors.divider, alignItems: 'center', marginLeft: 6 }}
+              >
+                <Text style={{ color: theme.colors.text }}>Custom Rotation</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </View>
+
       {/* Goals Section */}
       <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(2) }}>
-        Weekly Goals
+        Goals
       </Text>
       <View style={{ backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginBottom: theme.spacing(3) }}>
-        {(['good', 'bad', 'selfcare'] as const).map((type) => {
-          const goals = settings.goals || { good: 70, bad: 30, selfcare: 70 };
-          const catName = categories[type]?.name || type;
-          return (
-            <View key={type} style={{ marginBottom: theme.spacing(2) }}>
-              <Text style={{ color: theme.colors.text, fontWeight: '600', marginBottom: 8, textTransform: 'capitalize' }}>
-                {catName}
-              </Text>
-              <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-                <Text style={{ color: theme.colors.muted, marginRight: 12 }}>Target $</Text>
-                <TextInput
-                  value={goals[type]?.toString() || '0'}
-                  onChangeText={(val) => {
-                    const num = parseFloat(val) || 0;
-                    setSettings({ ...settings, goals: { ...goals, [type]: num } });
-                  }}
-                  keyboardType="decimal-pad"
-                  style={{
-                    flex: 1,
-                    color: theme.colors.text,
-                    backgroundColor: theme.colors.background,
-                    padding: 12,
-                    borderRadius: 8,
-                    borderWidth: 1,
-                    borderColor: theme.colors.divider,
-                    fontSize: 16,
-                  }}
-                />
+        {orderedCategories(categories).map((category) => (
+          <View key={category.id} style={{ marginBottom: theme.spacing(2) }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+              <Text style={{ color: theme.colors.text, fontWeight: '600' }}>{category.name}</Text>
+              {/* Direction: "more" goals are minimums to reach, "less" goals are caps to stay under */}
+              <View style={{ flexDirection: 'row' }}>
+                {(['more', 'less'] as CategoryPolarity[]).map((polarity) => {
+                  const isSelected = category.polarity === polarity;
+                  return (
+                    <TouchableOpacity key={polarity} onPress={() => updateCategory(category.id, { polarity })} style={{ paddingVertical: 4, paddingHorizontal: 10, borderRadius: 999, marginLeft: 6, backgroundColor: isSelected ? category.color : theme.colors.divider }}>
+                      <Text style={{ color: isSelected ? '#FFF' : theme.colors.text, fontSize: 12, fontWeight: isSelected ? '600' : '400' }}>
+                        {polarity === 'more' ? 'At least' : 'At most'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
             </View>
-          );
-        })}
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <Text style={{ color: theme.colors.muted, marginRight: 12 }}>{category.polarity === 'less' ? 'Cap $' : 'Target $'}</Text>
+              <TextInput
+                value={category.goal.toString()}
+                onChangeText={(val) => updateCategory(category.id, { goal: parseFloat(val) || 0 })}
+                keyboardType="decimal-pad"
+                style={{
+                  flex: 1,
+                  color: theme.colors.text,
+                  backgroundColor: theme.colors.background,
+                  padding: 12,
+                  borderRadius: 8,
+                  borderWidth: 1,
+                  borderColor: theme.colors.divider,
+                  fontSize: 16,
+                }}
+              />
+              {GOAL_PERIODS.map((period) => {
+                const isSelected = category.goalPeriod === period;
+                return (
+                  <TouchableOpacity key={period} onPress={() => updateCategory(category.id, { goalPeriod: period })} style={{ paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, marginLeft: 6, backgroundColor: isSelected ? category.color : theme.colors.divider }}>
+                    <Text style={{ color: isSelected ? '#FFF' : theme.colors.text, fontSize: 12, fontWeight: isSelected ? '600' : '400' }}>
+                      {GOAL_PERIOD_SUFFIXES[period]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
 
         {/* Week Ends On */}
         <View style={{ marginTop: theme.spacing(2), paddingTop: theme.spacing(2), borderTopWidth: 1, borderTopColor: theme.colors.divider }}>
@@ -304,7 +674,7 @@ export default function SettingsScreen() {
         </View>
 
         <TouchableOpacity
-          onPress={() => persistSettings(settings)}
+          onPress={saveGoals}
           style={{
             backgroundColor: theme.colors.accent,
             padding: 12,
@@ -323,8 +693,9 @@ export default function SettingsScreen() {
       <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(1) }}>Define your activity templates. Each activity belongs to a category type.</Text>
       {templates.map((t, idx) => {
         const catColor = categories[t.categoryType]?.color ?? theme.colors.divider;
+        const saved = storedTemplates.some((s) => s.id === t.id);
         return (
-          <View key={t.id} style={{ backgroundColor: theme.colors.card, padding: theme.spacing(2), borderRadius: 10, marginBottom: theme.spacing(1), borderLeftWidth: 4, borderLeftColor: catColor, overflow: 'hidden' }}>
+          <View key={t.id} style={{ backgroundColor: theme.colors.card, padding: theme.spacing(2), borderRadius: 10, marginBottom: theme.spacing(1), borderLeftWidth: 4, borderLeftColor: catColor, overflow: 'hidden', opacity: t.archived ? 0.5 : 1 }}>
             <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
               <TextInput
                 value={t.name}
@@ -336,17 +707,62 @@ export default function SettingsScreen() {
             </View>
 
             <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
-              <View style={{ flexDirection: 'row', flex: 1 }}>
-                {(['good', 'bad', 'selfcare'] as CategoryType[]).map((type) => (
-                  <TouchableOpacity key={type} onPress={() => updateTemplate(idx, { categoryType: type })} style={{ paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, marginRight: 8, backgroundColor: t.categoryType === type ? categories[type]?.color : theme.colors.divider }}>
-                    <Text style={{ color: t.categoryType === type ? '#FFF' : theme.colors.text, fontWeight: t.categoryType === type ? '600' : '400' }}>{type}</Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', flex: 1 }}>
+                {/* Archived categories only show up for templates still using them */}
+                {orderedCategories(categories, true).filter((c) => !c.archived || c.id === t.categoryType).map((c) => (
+                  <TouchableOpacity key={c.id} onPress={() => updateTemplate(idx, { categoryType: c.id })} style={{ paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, marginRight: 8, marginBottom: 6, backgroundColor: t.categoryType === c.id ? c.color : theme.colors.divider }}>
+                    <Text style={{ color: t.categoryType === c.id ? '#FFF' : theme.colors.text, fontWeight: t.categoryType === c.id ? '600' : '400' }}>{c.name}</Text>
                   </TouchableOpacity>
                 ))}
               </View>
-              <TouchableOpacity onPress={() => removeTemplate(t.id)} style={{ padding: 8 }}>
-                <Text style={{ color: theme.colors.red }}>Delete</Text>
-              </TouchableOpacity>
+              {saved ? (
+                <TouchableOpacity onPress={() => updateTemplate(idx, { archived: !t.archived })} style={{ padding: 8 }}>
+                  <Text style={{ color: theme.colors.muted }}>{t.archived ? 'Unarchive' : 'Archive'}</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity onPress={() => removeTemplate(t.id)} style={{ padding: 8 }}>
+                  <Text style={{ color: theme.colors.red }}>Delete</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {/* Budget: an optional minimum or cap on this activity alone */}
+            <View style={{ flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', marginTop: 4 }}>
+              <Text style={{ color: theme.colors.muted, marginRight: 8 }}>Budget</Text>
+              {([undefined, 'more', 'less'] as (CategoryPolarity | undefined)[]).map((polarity) => {
+                const isSelected = t.budget?.polarity === polarity;
+                return (
+                  <TouchableOpacity
+                    key={polarity ?? 'none'}
+                    onPress={() => updateTemplate(idx, { budget: polarity ? { amount: t.budget?.amount ?? 1, period: t.budget?.period ?? 'daily', polarity } : undefined })}
+                    style={{ paddingVertical: 4, paddingHorizontal: 10, borderRadius: 999, marginRight: 6, marginBottom: 6, backgroundColor: isSelected ? catColor : theme.colors.divider }}
+                  >
+                    <Text style={{ color: isSelected ? '#FFF' : theme.colors.text, fontSize: 12, fontWeight: isSelected ? '600' : '400' }}>
+                      {polarity === 'more' ? 'At least' : polarity === 'less' ? 'At most' : 'None'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
             </View>
+            {t.budget && (
+              <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                <Text style={{ color: theme.colors.muted, marginRight: 8 }}>$</Text>
+                <TextInput
+                  value={t.budget.amount.toString()}
+                  onChangeText={(val) => updateTemplate(idx, { budget: { ...t.budget!, amount: parseFloat(val) || 0 } })}
+                  keyboardType="decimal-pad"
+                  style={{ flex: 1, color: theme.colors.text, backgroundColor: theme.colors.background, padding: 8, borderRadius: 6, borderWidth: 1, borderColor: theme.colors.divider }}
+                />
+                {GOAL_PERIODS.map((period) => {
+                  const isSelected = t.budget!.period === period;
+                  return (
+                    <TouchableOpacity key={period} onPress={() => updateTemplate(idx, { budget: { ...t.budget!, period } })} style={{ paddingVertical: 6, paddingHorizontal: 10, borderRadius: 999, marginLeft: 6, backgroundColor: isSelected ? catColor : theme.colors.divider }}>
+                      <Text style={{ color: isSelected ? '#FFF' : theme.colors.text, fontSize: 12, fontWeight: isSelected ? '600' : '400' }}>{GOAL_PERIOD_SUFFIXES[period]}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
           </View>
         );
       })}
@@ -367,7 +783,7 @@ export default function SettingsScreen() {
       <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(1) }}>One-tap shortcuts to add common activities with preset times.</Text>
       {(settings.quickActivities || []).map((quickActivity, idx) => {
         const template = templates.find(t => t.id === quickActivity.templateId);
-        const catColor = categories[template?.categoryType || 'good']?.color ?? theme.colors.divider;
+        const catColor = (template && categories[template.categoryType]?.color) ?? theme.colors.divider;
 
         return (
           <View key={quickActivity.id} style={{ backgroundColor: theme.colors.card, padding: theme.spacing(2), borderRadius: 16, marginBottom: theme.spacing(2), borderLeftWidth: 4, borderLeftColor: catColor }}>
@@ -401,7 +817,7 @@ export default function SettingsScreen() {
             {/* Template Selector */}
             <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: 6 }}>Activity Template</Text>
             <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginBottom: theme.spacing(2) }}>
-              {templates.map((t) => {
+              {templates.filter((t) => !t.archived || t.id === quickActivity.templateId).map((t) => {
                 const isSelected = quickActivity.templateId === t.id;
                 return (
                   <TouchableOpacity
@@ -544,36 +960,85 @@ export default function SettingsScreen() {
       <View style={{ height: 1, backgroundColor: theme.colors.divider, marginVertical: theme.spacing(2) }} />
 
       <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(2) }}>Categories</Text>
-      <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(1) }}>Define the three category types and their colors.</Text>
-      {
-        (['good', 'bad', 'selfcare'] as CategoryType[]).map((type) => {
-          const catColor = categories[type]?.color ?? theme.colors.divider;
-          return (
-            <View key={type} style={{ backgroundColor: catColor, padding: theme.spacing(2), borderRadius: 10, marginBottom: theme.spacing(1) }}>
-              <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-                <Text style={{ color: '#FFF', fontWeight: '700', marginRight: 8, textTransform: 'capitalize', width: 80, textShadowColor: 'rgba(0, 0, 0, 0.3)', textShadowOffset: { width: 0, height: 1 }, textShadowRadius: 2 }}>{type}</Text>
-                <TextInput
-                  value={categories[type]?.name ?? ''}
-                  onChangeText={(name) => updateCategory(type, { name })}
-                  placeholder="Category name"
-                  placeholderTextColor="rgba(255, 255, 255, 0.7)"
-                  style={{ flex: 1, color: '#FFF', backgroundColor: 'rgba(0, 0, 0, 0.2)', padding: 8, borderRadius: 6, borderWidth: 1, borderColor: 'rgba(255, 255, 255, 0.3)', marginRight: 8, fontWeight: '600' }}
-                />
-                <TouchableOpacity onPress={() => openColorPicker(type)} style={{ width: 60, height: 36, backgroundColor: 'rgba(0, 0, 0, 0.2)', borderRadius: 6, borderWidth: 1, borderColor: 'rgba(255, 255, 255, 0.3)', justifyContent: 'center', alignItems: 'center' }}>
-                  <Text style={{ color: '#FFF', fontSize: 10, fontWeight: '600', textShadowColor: 'rgba(0, 0, 0, 0.75)', textShadowOffset: { width: 0, height: 1 }, textShadowRadius: 2 }}>🎨 Edit</Text>
-                </TouchableOpacity>
-              </View>
+      <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(1) }}>Name, color and order your categories. Archived ones are hidden when logging but keep their history.</Text>
+      {orderedCategories(categories, true).map((category, idx, list) => {
+        const archived = !!category.archived;
+        return (
+          <View key={category.id} style={{ backgroundColor: category.color, padding: theme.spacing(2), borderRadius: 10, marginBottom: theme.spacing(1), opacity: archived ? 0.5 : 1 }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <TextInput
+                value={category.name}
+                onChangeText={(name) => updateCategory(category.id, { name })}
+                placeholder="Category name"
+                placeholderTextColor="rgba(255, 255, 255, 0.7)"
+                style={{ flex: 1, color: '#FFF', backgroundColor: 'rgba(0, 0, 0, 0.2)', padding: 8, borderRadius: 6, borderWidth: 1, borderColor: 'rgba(255, 255, 255, 0.3)', marginRight: 8, fontWeight: '600' }}
+              />
+              <TouchableOpacity onPress={() => openColorPicker(category.id)} style={{ width: 60, height: 36, backgroundColor: 'rgba(0, 0, 0, 0.2)', borderRadius: 6, borderWidth: 1, borderColor: 'rgba(255, 255, 255, 0.3)', justifyContent: 'center', alignItems: 'center' }}>
+                <Text style={{ color: '#FFF', fontSize: 10, fontWeight: '600', textShadowColor: 'rgba(0, 0, 0, 0.75)', textShadowOffset: { width: 0, height: 1 }, textShadowRadius: 2 }}>🎨 Edit</Text>
+              </TouchableOpacity>
             </View>
-          );
-        })
-      }
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 8 }}>
+              <TouchableOpacity disabled={idx === 0} onPress={() => moveCategory(category.id, -1)} style={{ paddingVertical: 4, paddingHorizontal: 10, opacity: idx === 0 ? 0.4 : 1 }}>
+                <Text style={{ color: '#FFF', fontWeight: '700' }}>↑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity disabled={idx === list.length - 1} onPress={() => moveCategory(category.id, 1)} style={{ paddingVertical: 4, paddingHorizontal: 10, opacity: idx === list.length - 1 ? 0.4 : 1 }}>
+                <Text style={{ color: '#FFF', fontWeight: '700' }}>↓</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => updateCategory(category.id, { archived: !archived })} style={{ paddingVertical: 4, paddingHorizontal: 10, marginLeft: 8, borderRadius: 6, backgroundColor: 'rgba(0, 0, 0, 0.2)' }}>
+                <Text style={{ color: '#FFF', fontSize: 12, fontWeight: '600' }}>{archived ? 'Unarchive' : 'Archive'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
 
-      <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: theme.spacing(2) }}>
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: theme.spacing(2) }}>
+        <TouchableOpacity onPress={addCategory} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.divider }}>
+          <Text style={{ color: theme.colors.text }}>Add Category</Text>
+        </TouchableOpacity>
         <TouchableOpacity onPress={saveAllCategories} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.accent }}>
           <Text style={{ color: theme.colors.accentText, fontWeight: '700' }}>Save Categories</Text>
         </TouchableOpacity>
       </View>
 
+      <View style={{ height: 1, backgroundColor: theme.colors.divider, marginVertical: theme.spacing(2) }} />
+
+      {/* Data Section */}
+      <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(2) }}>Your Data</Text>
+      <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(1) }}>Save everything to a single file, or restore from one on a new phone.</Text>
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: theme.spacing(1) }}>
+        <TouchableOpacity onPress={importBackup} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.divider }}>
+          <Text style={{ color: theme.colors.text }}>Import Backup</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={exportBackup} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.accent }}>
+          <Text style={{ color: theme.colors.accentText, fontWeight: '700' }}>Export Backup</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity onPress={() => setExportVisible(true)} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.divider, marginTop: theme.spacing(1), alignItems: 'center' }}>
+        <Text style={{ color: theme.colors.text }}>Export CSV or Calendar (.ics)</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => navigation.navigate('CalendarImport')} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.divider, marginTop: theme.spacing(1), alignItems: 'center' }}>
+        <Text style={{ color: theme.colors.text }}>Import from Calendar (.ics)</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => navigation.navigate('TimeTrackerImport')} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.divider, marginTop: theme.spacing(1), alignItems: 'center' }}>
+        <Text style={{ color: theme.colors.text }}>Import from Toggl / Clockify (.csv)</Text>
+      </TouchableOpacity>
+
+      <ExportModal
+        visible={exportVisible}
+        onClose={() => setExportVisible(false)}
+        categories={storedCategories}
+        settings={storedSettings}
+      />
+
+      <RestoreBackupModal
+        backup={pendingRestore?.backup ?? null}
+        diff={pendingRestore?.diff ?? null}
+        onClose={() => setPendingRestore(null)}
+        onRestore={applyRestore}
+      />
+
       {/* Color Picker Modal */}
       <Modal visible={colorPickerVisible} animationType="slide" transparent>
         <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.8)', justifyContent: 'center', alignItems: 'center', padding: theme.spacing(3) }}>
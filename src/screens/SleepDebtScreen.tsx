@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useTheme } from '../useTheme';
+import { useActivitiesInRange, useSettings } from '../store';
+import { getMostRecentWake } from '../utils/time';
+import { SleepNight, computeSleepLedger, formatDebtHours, getSleepDebtRange, summarizeDebtByWeek } from '../utils/sleepDebt';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SleepDebt'>;
+
+// Nights listed individually, newest first
+const RECENT_NIGHTS = 7;
+
+export default function SleepDebtScreen({ route }: Props) {
+  const { theme } = useTheme();
+  const settings = useSettings();
+
+  const now = useMemo(() => new Date(), []);
+  const day = useMemo(
+    () => (route.params?.date ? new Date(route.params.date) : getMostRecentWake(now, settings)),
+    [route.params?.date, now, settings]
+  );
+  const range = useMemo(() => getSleepDebtRange(day, settings), [day, settings]);
+  const activities = useActivitiesInRange(range.start, range.end);
+
+  const nights = useMemo(() => computeSleepLedger(activities, day, settings, now), [activities, day, settings, now]);
+  const weeks = useMemo(() => summarizeDebtByWeek(nights, settings), [nights, settings]);
+  const balance = nights[nights.length - 1]?.balance ?? 0;
+  const maxBalance = Math.max(1, ...weeks.map((w) => w.balance));
+
+  function renderNight(night: SleepNight) {
+    const owed = night.debt > 0;
+    return (
+      <View key={night.date.toISOString()} style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: theme.colors.divider }}>
+        <Text style={{ color: theme.colors.text, flex: 1, fontWeight: '600' }}>
+          {night.date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+        </Text>
+        {night.tracked ? (
+          <>
+            <Text style={{ color: theme.colors.muted, marginRight: theme.spacing(2) }}>
+              {formatDebtHours(night.slept)} of {formatDebtHours(night.scheduled)}
+            </Text>
+            <Text style={{ color: owed ? theme.colors.red : theme.colors.green, width: 64, textAlign: 'right', fontWeight: '600' }}>
+              {Math.abs(night.debt) < 0.01 ? '—' : `${owed ? '+' : '-'}${formatDebtHours(Math.abs(night.debt))}`}
+            </Text>
+          </>
+        ) : (
+          <Text style={{ color: theme.colors.muted }}>No sleep logged</Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: theme.colors.background }} contentContainerStyle={{ padding: theme.spacing(2), paddingBottom: theme.spacing(8) }}>
+      <View style={{ backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginBottom: theme.spacing(2), alignItems: 'center' }}>
+        <Text style={{ color: theme.colors.muted, fontSize: 14 }}>Sleep debt</Text>
+        <Text style={{ color: balance > 0 ? theme.colors.red : theme.colors.green, fontSize: 40, fontWeight: '900' }}>
+          {balance > 0 ? formatDebtHours(balance) : 'None 🎉'}
+        </Text>
+        <Text style={{ color: theme.colors.muted, fontSize: 12, textAlign: 'center', marginTop: 4 }}>
+          Logged Sleep against your scheduled sleep, carried night to night. Extra sleep pays it back.
+        </Text>
+      </View>
+
+      {/* Debt at the end of each week, oldest on the left */}
+      <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(1) }}>Weekly Trend</Text>
+      <View style={{ backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginBottom: theme.spacing(2) }}>
+        <View style={{ flexDirection: 'row', alignItems: 'flex-end', height: 80 }}>
+          {weeks.map((w) => (
+            <View key={w.end.toISOString()} style={{ flex: 1, marginHorizontal: 2, height: '100%', justifyContent: 'flex-end' }}>
+              <View style={{ height: `${Math.max(w.balance / maxBalance, 0.04) * 100}%`, backgroundColor: w.balance > 0 ? theme.colors.red : theme.colors.green, borderRadius: 3 }} />
+            </View>
+          ))}
+        </View>
+        <View style={{ flexDirection: 'row', marginTop: 4 }}>
+          {weeks.map((w) => (
+            <Text key={w.end.toISOString()} style={{ flex: 1, color: theme.colors.muted, fontSize: 10, textAlign: 'center' }}>
+              {w.end.getMonth() + 1}/{w.end.getDate()}
+            </Text>
+          ))}
+        </View>
+      </View>
+
+      <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(1) }}>Recent Nights</Text>
+      <View style={{ backgroundColor: theme.colors.card, borderRadius: 16, paddingHorizontal: theme.spacing(2), paddingVertical: theme.spacing(1) }}>
+        {nights.slice(-RECENT_NIGHTS).reverse().map(renderNight)}
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Share, useColorScheme } from 'react-native';
+import { darkTheme, lightTheme } from '../theme';
+
+interface Props {
+  error: unknown;
+  onRetry: () => Promise<void>;
+}
+
+// Shown when migrations fail on launch. The rest of the app would read data
+// still in the old shape, so it stays closed; this screen reads no storage,
+// which is also why it takes the system theme instead of the saved one.
+export default function StorageErrorScreen({ error, onRetry }: Props) {
+  const theme = useColorScheme() === 'light' ? lightTheme : darkTheme;
+  const [retrying, setRetrying] = useState(false);
+  const message = error instanceof Error ? error.message : String(error);
+
+  async function retry() {
+    setRetrying(true);
+    try {
+      await onRetry();
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: theme.colors.background }}>
+      <ScrollView contentContainerStyle={{ padding: theme.spacing(2), paddingTop: theme.spacing(8), paddingBottom: theme.spacing(4) }}>
+        <Text style={{ color: theme.colors.text, fontSize: 24, fontWeight: '700', marginBottom: theme.spacing(1) }}>
+          Your data couldn't be upgraded
+        </Text>
+        <Text style={{ color: theme.colors.muted, fontSize: 14, lineHeight: 20, marginBottom: theme.spacing(3) }}>
+          Nothing has been changed or deleted. The upgrade picks up where it stopped, so trying again is safe.
+          If it keeps failing, share the details below with us.
+        </Text>
+        <View style={{ backgroundColor: theme.colors.card, padding: theme.spacing(2), borderRadius: 10, borderLeftWidth: 4, borderLeftColor: theme.colors.red }}>
+          <Text style={{ color: theme.colors.muted, fontSize: 12, fontFamily: 'monospace' }}>{message}</Text>
+        </View>
+      </ScrollView>
+
+      <View style={{ padding: theme.spacing(2), paddingBottom: theme.spacing(6), backgroundColor: theme.colors.card, borderTopWidth: 1, borderTopColor: theme.colors.divider }}>
+        <View style={{ flexDirection: 'row' }}>
+          <TouchableOpacity onPress={() => Share.share({ message })} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.divider, marginRight: theme.spacing(1) }}>
+            <Text style={{ color: theme.colors.text, textAlign: 'center', fontWeight: '600' }}>Share Details</Text>
+          </TouchableOpacity>
+          <TouchableOpacity disabled={retrying} onPress={retry} style={{ flex: 1, padding: 14, borderRadius: 12, backgroundColor: theme.colors.accent, marginLeft: theme.spacing(1), opacity: retrying ? 0.6 : 1 }}>
+            <Text style={{ color: theme.colors.accentText, textAlign: 'center', fontWeight: '700' }}>{retrying ? 'Trying…' : 'Try Again'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useTheme } from '../useTheme';
+import { useActivitiesInRange, useCategories, useFirstActivityDay, useSettings, useTemplates } from '../store';
+import { GoalPeriod } from '../types';
+import { getMostRecentWake } from '../utils/time';
+import { orderedCategories } from '../utils/categories';
+import { GOAL_PERIOD_SUFFIXES, getGoalRange, usedGoalPeriods } from '../utils/goals';
+import { Streak, computeBudgetStreak, computeCategoryStreak, getStreaksStart } from '../utils/streaks';
+import StreakCalendar from '../components/StreakCalendar';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Streaks'>;
+
+export default function StreaksScreen({ route }: Props) {
+  const { theme } = useTheme();
+  const settings = useSettings();
+  const categories = useCategories();
+  const templates = useTemplates();
+  const firstActivityDay = useFirstActivityDay();
+
+  const day = useMemo(
+    () => (route.params?.date ? new Date(route.params.date) : getMostRecentWake(new Date(), settings)),
+    [route.params?.date, settings]
+  );
+  const goalCategories = useMemo(() => orderedCategories(categories), [categories]);
+  const budgetTemplates = useMemo(() => templates.filter((t) => t.budget && !t.archived), [templates]);
+
+  const range = useMemo(() => ({
+    start: getStreaksStart(usedGoalPeriods(goalCategories, budgetTemplates), day, settings),
+    end: getGoalRange('daily', day, settings).end,
+  }), [goalCategories, budgetTemplates, day, settings]);
+  const activities = useActivitiesInRange(range.start, range.end);
+
+  function renderStreak(key: string, title: string, subtitle: string, color: string, streak: Streak, period: GoalPeriod) {
+    return (
+      <View key={key} style={{ backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginBottom: theme.spacing(2), borderLeftWidth: 4, borderLeftColor: color }}>
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: theme.spacing(1) }}>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: theme.colors.text, fontSize: 16, fontWeight: '700' }}>{title}</Text>
+            <Text style={{ color: theme.colors.muted, fontSize: 12, marginTop: 2 }}>{subtitle}</Text>
+          </View>
+          <View style={{ alignItems: 'flex-end' }}>
+            <Text style={{ color: theme.colors.text, fontSize: 24, fontWeight: '900' }}>🔥 {streak.current}</Text>
+            <Text style={{ color: theme.colors.muted, fontSize: 12 }}>best {streak.longest}</Text>
+          </View>
+        </View>
+        <StreakCalendar streak={streak} period={period} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: theme.colors.background }} contentContainerStyle={{ padding: theme.spacing(2), paddingBottom: theme.spacing(8) }}>
+      <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(2) }}>
+        Days run bedtime to bedtime. Green periods kept the goal, red ones missed it; the outlined one is still in progress.
+      </Text>
+
+      <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(2) }}>Goals</Text>
+      {goalCategories.map((c) => renderStreak(
+        c.id,
+        c.name,
+        `${c.polarity === 'less' ? 'At most' : 'At least'} $${c.goal.toFixed(2)}${GOAL_PERIOD_SUFFIXES[c.goalPeriod]}`,
+        c.color,
+        computeCategoryStreak(activities, c, day, settings, firstActivityDay),
+        c.goalPeriod,
+      ))}
+
+      {budgetTemplates.length > 0 && (
+        <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(2), marginTop: theme.spacing(1) }}>Budgets</Text>
+      )}
+      {budgetTemplates.map((t) => {
+        const streak = computeBudgetStreak(activities, t, day, settings, firstActivityDay);
+        if (!streak || !t.budget) return null;
+        return renderStreak(
+          t.id,
+          t.name,
+          `${t.budget.polarity === 'less' ? 'At most' : 'At least'} $${t.budget.amount.toFixed(2)}${GOAL_PERIOD_SUFFIXES[t.budget.period]}`,
+          categories[t.categoryType]?.color ?? theme.colors.divider,
+          streak,
+          t.budget.period,
+        );
+      })}
+    </ScrollView>
+  );
+}
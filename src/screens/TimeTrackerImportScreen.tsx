@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useTheme } from '../useTheme';
+import { CategoryType, ImportMapping } from '../types';
+import { addActivities, loadActivitiesInRange, saveSettings } from '../storage';
+import { useCategories, useSettings, useTemplates } from '../store';
+import { TrackerEntry, TrackerFormat, TrackerImportError, entryToActivity, parseTrackerCSV } from '../utils/timeTrackerImport';
+import { pickTextFile } from '../utils/files';
+import { orderedCategories } from '../utils/categories';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'TimeTrackerImport'>;
+
+const FORMAT_NAMES: Record<TrackerFormat, string> = { toggl: 'Toggl Track', clockify: 'Clockify' };
+
+export default function TimeTrackerImportScreen({ navigation }: Props) {
+  const { theme } = useTheme();
+  const settings = useSettings();
+  const templates = useTemplates();
+  const categories = useCategories();
+
+  const [file, setFile] = useState<{ name: string; format: TrackerFormat; skipped: number } | null>(null);
+  const [entries, setEntries] = useState<TrackerEntry[]>([]);
+  const [existingIds, setExistingIds] = useState<Set<string>>(new Set());
+  const [mappings, setMappings] = useState<ImportMapping[]>(settings.importMappings ?? []);
+
+  useEffect(() => setMappings(settings.importMappings ?? []), [settings.importMappings]);
+
+  async function chooseFile() {
+    try {
+      const picked = await pickTextFile(['text/csv', 'text/comma-separated-values', 'text/plain', '*/*']);
+      if (!picked) return;
+      const { format, entries: parsed, skipped } = parseTrackerCSV(picked.text);
+      if (parsed.length === 0) {
+        Alert.alert('Nothing to import', 'No rows with a start and end time were found.');
+        return;
+      }
+      const starts = parsed.map((e) => e.start.getTime());
+      const ends = parsed.map((e) => e.end.getTime());
+      const existing = await loadActivitiesInRange(new Date(Math.min(...starts)), new Date(Math.max(...ends)));
+      setExistingIds(new Set(existing.map((a) => a.id)));
+      setEntries(parsed);
+      setFile({ name: picked.name, format, skipped });
+    } catch (e) {
+      Alert.alert('Could not read export', e instanceof TrackerImportError ? e.message : String(e));
+    }
+  }
+
+  const newEntries = useMemo(() => entries.filter((e) => !existingIds.has(e.activityId)), [entries, existingIds]);
+
+  // Distinct projects and tags in the file, with how many new rows use each
+  const sources = useMemo(() => {
+    const counts = new Map<string, { source: ImportMapping['source']; value: string; count: number }>();
+    for (const entry of newEntries) {
+      const values: [ImportMapping['source'], string][] = [
+        ...(entry.project ? [['project', entry.project] as [ImportMapping['source'], string]] : []),
+        ...entry.tags.map((tag) => ['tag', tag] as [ImportMapping['source'], string]),
+      ];
+      for (const [source, value] of values) {
+        const key = `${source}:${value.toLowerCase()}`;
+        const existing = counts.get(key);
+        counts.set(key, { source, value, count: (existing?.count ?? 0) + 1 });
+      }
+    }
+    return [...counts.values()].sort((a, b) => (a.source === b.source ? b.count - a.count : a.source === 'project' ? -1 : 1));
+  }, [newEntries]);
+
+  const activities = useMemo(
+    () => newEntries.map((e) => entryToActivity(e, mappings, templates)).filter((a) => a !== null),
+    [newEntries, mappings, templates]
+  );
+
+  function mappingFor(source: ImportMapping['source'], value: string) {
+    return mappings.find((m) => m.source === source && m.value.toLowerCase() === value.toLowerCase());
+  }
+
+  function setMapping(source: ImportMapping['source'], value: string, target: { templateId?: string; categoryType?: CategoryType } | null) {
+    setMappings((prev) => {
+      const rest = prev.filter((m) => !(m.source === source && m.value.toLowerCase() === value.toLowerCase()));
+      if (!target) return rest;
+      return [...rest, { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, source, value, ...target }];
+    });
+  }
+
+  async function handleImport() {
+    try {
+      await addActivities(activities);
+      await saveSettings({ ...settings, importMappings: mappings });
+    } catch (e) {
+      Alert.alert('Could not import', e instanceof Error ? e.message : String(e));
+      return;
+    }
+    Alert.alert('Import complete', `Added ${activities.length} ${activities.length === 1 ? 'activity' : 'activities'}.`);
+    navigation.goBack();
+  }
+
+  function chip(label: string, selected: boolean, color: string | undefined, onPress: () => void, key: string) {
+    return (
+      <TouchableOpacity key={key} onPress={onPress} style={{ paddingVertical: 4, paddingHorizontal: 10, borderRadius: 12, marginRight: 6, marginBottom: 6, backgroundColor: selected ? (color ?? theme.colors.accent) : theme.colors.divider }}>
+        <Text style={{ color: selected ? '#FFF' : theme.colors.text, fontSize: 12, fontWeight: selected ? '600' : '400' }}>{label}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: theme.colors.background }}>
+      <ScrollView contentContainerStyle={{ padding: theme.spacing(2), paddingBottom: theme.spacing(16) }}>
+        <Text style={{ color: theme.colors.muted, fontSize: 12, marginBottom: theme.spacing(2) }}>
+          Export a detailed report as CSV from Toggl Track or Clockify, then map its projects and tags to your activities.
+          Rows imported before are skipped automatically.
+        </Text>
+
+        <TouchableOpacity onPress={chooseFile} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.accent, alignItems: 'center', marginBottom: theme.spacing(2) }}>
+          <Text style={{ color: theme.colors.accentText, fontWeight: '700' }}>{file ? 'Choose Another File' : 'Choose CSV File'}</Text>
+        </TouchableOpacity>
+
+        {file && (
+          <View style={{ backgroundColor: theme.colors.card, padding: theme.spacing(2), borderRadius: 10, marginBottom: theme.spacing(3) }}>
+            <Text style={{ color: theme.colors.text, fontWeight: '600' }}>{file.name}</Text>
+            <Text style={{ color: theme.colors.muted, fontSize: 12, marginTop: 4 }}>
+              {FORMAT_NAMES[file.format]} · {entries.length} rows · {entries.length - newEntries.length} already imported
+              {file.skipped > 0 ? ` · ${file.skipped} unreadable` : ''}
+            </Text>
+          </View>
+        )}
+
+        {sources.map(({ source, value, count }) => {
+          const mapping = mappingFor(source, value);
+          return (
+            <View key={`${source}:${value}`} style={{ backgroundColor: theme.colors.card, padding: theme.spacing(1.5), borderRadius: 10, marginBottom: theme.spacing(1) }}>
+              <Text style={{ color: theme.colors.text, fontWeight: '600', marginBottom: 6 }}>
+                {source === 'tag' ? `#${value}` : value}
+                <Text style={{ color: theme.colors.muted, fontWeight: '400', fontSize: 12 }}>  {source} · {count} rows</Text>
+              </Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                {chip('Skip', !mapping, theme.colors.muted, () => setMapping(source, value, null), 'skip')}
+                {templates.filter((t) => !t.archived || t.id === mapping?.templateId).map((t) => chip(t.name, mapping?.templateId === t.id, categories[t.categoryType]?.color, () => setMapping(source, value, { templateId: t.id }), t.id))}
+              </View>
+              <Text style={{ color: theme.colors.muted, fontSize: 11, marginTop: 4, marginBottom: 4 }}>or keep the entry's name under a category:</Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                {orderedCategories(categories).map((c) => chip(c.name, !mapping?.templateId && mapping?.categoryType === c.id, c.color, () => setMapping(source, value, { categoryType: c.id }), c.id))}
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {file && (
+        <View style={{ position: 'absolute', bottom: 0, left: 0, right: 0, padding: theme.spacing(2), paddingBottom: theme.spacing(6), backgroundColor: theme.colors.card, borderTopWidth: 1, borderTopColor: theme.colors.divider }}>
+          <TouchableOpacity onPress={handleImport} disabled={activities.length === 0} style={{ padding: 14, borderRadius: 12, backgroundColor: activities.length > 0 ? theme.colors.accent : theme.colors.divider }}>
+            <Text style={{ color: activities.length > 0 ? theme.colors.accentText : theme.colors.muted, fontWeight: '700', textAlign: 'center' }}>
+              Import {activities.length} of {newEntries.length} New Rows
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useTheme } from '../useTheme';
+import { useActivitiesInRange, useCategories, useSettings } from '../store';
+import { orderedCategories } from '../utils/categories';
+import { goalProgress, scaleGoal } from '../utils/goals';
+import { DaySummary, getWeekDates, getWeekRange, scoreDay, summarizeWeek } from '../utils/week';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'WeeklySummary'>;
+
+function formatDay(date: Date, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }): string {
+  return date.toLocaleDateString(undefined, options);
+}
+
+function formatDelta(delta: number): string {
+  if (Math.abs(delta) < 0.005) return 'same as last week';
+  return `${delta > 0 ? '+' : '-'}$${Math.abs(delta).toFixed(2)} vs last week`;
+}
+
+export default function WeeklySummaryScreen({ navigation, route }: Props) {
+  const { theme } = useTheme();
+  const settings = useSettings();
+  const categories = useCategories();
+
+  const [anchor, setAnchor] = useState<Date>(() => (route.params?.date ? new Date(route.params.date) : new Date()));
+
+  const dates = useMemo(() => getWeekDates(anchor, settings.weekEndsOn), [anchor, settings.weekEndsOn]);
+  const previousDates = useMemo(() => dates.map((d) => new Date(d.getFullYear(), d.getMonth(), d.getDate() - 7)), [dates]);
+
+  // One load covers both weeks
+  const range = useMemo(() => ({
+    start: getWeekRange(previousDates, settings).start,
+    end: getWeekRange(dates, settings).end,
+  }), [dates, previousDates, settings]);
+  const activities = useActivitiesInRange(range.start, range.end);
+
+  const week = useMemo(() => summarizeWeek(activities, dates, settings), [activities, dates, settings]);
+  const previous = useMemo(() => summarizeWeek(activities, previousDates, settings), [activities, previousDates, settings]);
+
+  const isCurrentWeek = dates[dates.length - 1] >= new Date(new Date().setHours(0, 0, 0, 0));
+
+  // Only days that have happened and have something logged can be best or worst
+  const { best, worst } = useMemo(() => {
+    const today = new Date();
+    const scored = week.days
+      .filter((d) => d.date <= today && d.total > 0)
+      .map((d) => ({ day: d, score: scoreDay(d, categories) }))
+      .sort((a, b) => b.score - a.score);
+    if (scored.length < 2) return { best: scored[0]?.day ?? null, worst: null };
+    return { best: scored[0].day, worst: scored[scored.length - 1].day };
+  }, [week, categories]);
+
+  function shiftWeek(delta: number) {
+    setAnchor(new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + delta * 7));
+  }
+
+  function renderDayRow(day: DaySummary) {
+    const future = day.date > new Date();
+    return (
+      <View key={day.date.toISOString()} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: theme.spacing(1), opacity: future ? 0.4 : 1 }}>
+        <Text style={{ color: theme.colors.text, width: 48, fontWeight: '600' }}>{formatDay(day.date, { weekday: 'short' })}</Text>
+        {/* Bar is scaled to the 24 dollars a day holds */}
+        <View style={{ flex: 1, height: 14, flexDirection: 'row', backgroundColor: theme.colors.divider, borderRadius: 7, overflow: 'hidden' }}>
+          {orderedCategories(categories, true).map((c) => {
+            const amount = day.totals[c.id] ?? 0;
+            if (amount <= 0) return null;
+            return <View key={c.id} style={{ width: `${Math.min(amount / 24, 1) * 100}%`, backgroundColor: c.color }} />;
+          })}
+        </View>
+        <Text style={{ color: theme.colors.muted, width: 64, textAlign: 'right' }}>${day.total.toFixed(2)}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: theme.colors.background }} contentContainerStyle={{ padding: theme.spacing(2), paddingBottom: theme.spacing(8) }}>
+      {/* Week picker */}
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: theme.spacing(3) }}>
+        <TouchableOpacity onPress={() => shiftWeek(-1)} style={{ padding: 8 }}>
+          <Text style={{ color: theme.colors.accent, fontSize: 22, fontWeight: '700' }}>‹</Text>
+        </TouchableOpacity>
+        <View style={{ alignItems: 'center' }}>
+          <Text style={{ color: theme.colors.text, fontSize: 18, fontWeight: '700' }}>
+            {formatDay(dates[0])} – {formatDay(dates[6])}
+          </Text>
+          <Text style={{ color: theme.colors.muted, fontSize: 12, marginTop: 2 }}>
+            ${week.total.toFixed(2)} logged · {formatDelta(week.total - previous.total)}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => shiftWeek(1)} disabled={isCurrentWeek} style={{ padding: 8, opacity: isCurrentWeek ? 0.3 : 1 }}>
+          <Text style={{ color: theme.colors.accent, fontSize: 22, fontWeight: '700' }}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Goals */}
+      <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(2) }}>Goals</Text>
+      <View style={{ backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginBottom: theme.spacing(3) }}>
+        {orderedCategories(categories).map((category) => {
+          const current = week.totals[category.id] ?? 0;
+          const last = previous.totals[category.id] ?? 0;
+          // Daily and monthly goals are scaled to a week so every row compares like with like
+          const goal = scaleGoal(category, 7);
+          const { fraction: progress, state } = goalProgress(category.polarity, current, goal);
+          const overCap = state === 'over';
+          // Whether the change since last week is good news depends on polarity
+          const delta = current - last;
+          const improved = category.polarity === 'less' ? delta < 0 : delta > 0;
+          return (
+            <View key={category.id} style={{ marginBottom: theme.spacing(2) }}>
+              <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 }}>
+                <Text style={{ color: theme.colors.text, fontWeight: '600' }}>{category.name}</Text>
+                <Text style={{ color: overCap ? theme.colors.red : theme.colors.muted }}>
+                  ${current.toFixed(2)} / {category.polarity === 'less' ? '≤ ' : ''}${goal.toFixed(2)}
+                </Text>
+              </View>
+              <View style={{ height: 12, backgroundColor: theme.colors.divider, borderRadius: 20, overflow: 'hidden' }}>
+                <View style={{ height: '100%', width: `${progress * 100}%`, backgroundColor: overCap ? theme.colors.red : category.color, borderRadius: 20 }} />
+              </View>
+              <Text style={{ color: Math.abs(delta) < 0.005 ? theme.colors.muted : improved ? theme.colors.green : theme.colors.red, fontSize: 12, marginTop: 4 }}>
+                {formatDelta(delta)}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Daily breakdown */}
+      <Text style={{ color: theme.colors.text, fontSize: 20, fontWeight: '700', marginBottom: theme.spacing(2) }}>Day by Day</Text>
+      <View style={{ backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginBottom: theme.spacing(3) }}>
+        {week.days.map(renderDayRow)}
+      </View>
+
+      {/* Best and worst days */}
+      {best && (
+        <View style={{ flexDirection: 'row' }}>
+          <View style={{ flex: 1, backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginRight: worst ? theme.spacing(1) : 0 }}>
+            <Text style={{ color: theme.colors.muted, fontSize: 12, fontWeight: '600' }}>BEST DAY</Text>
+            <Text style={{ color: theme.colors.green, fontSize: 20, fontWeight: '800', marginTop: 4 }}>{formatDay(best.date, { weekday: 'long' })}</Text>
+          </View>
+          {worst && (
+            <View style={{ flex: 1, backgroundColor: theme.colors.card, borderRadius: 16, padding: theme.spacing(2), marginLeft: theme.spacing(1) }}>
+              <Text style={{ color: theme.colors.muted, fontSize: 12, fontWeight: '600' }}>WORST DAY</Text>
+              <Text style={{ color: theme.colors.red, fontSize: 20, fontWeight: '800', marginTop: 4 }}>{formatDay(worst.date, { weekday: 'long' })}</Text>
+            </View>
+          )}
+        </View>
+      )}
+      {best && (
+        <Text style={{ color: theme.colors.muted, fontSize: 12, marginTop: theme.spacing(1) }}>
+          Days are ranked by time in "more is better" categories minus time in "less is better" ones.
+        </Text>
+      )}
+
+      <TouchableOpacity onPress={() => navigation.navigate('BudgetReport')} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.divider, marginTop: theme.spacing(3), alignItems: 'center' }}>
+        <Text style={{ color: theme.colors.text }}>Activity Budgets ›</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => navigation.navigate('SleepDebt')} style={{ padding: 12, borderRadius: 8, backgroundColor: theme.colors.divider, marginTop: theme.spacing(1), alignItems: 'center' }}>
+        <Text style={{ color: theme.colors.text }}>Sleep Debt ›</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
@@ -1,162 +1,618 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Activity, ActivityTemplate, Category, CategoryType, UserSettings } from './types';
+import { Activity, ActivityTemplate, Category, CategoryType, QuarantineEntry, RunningActivity, UserSettings } from './types';
+import { isActivity, isActivityTemplate, isCategory, isRunningActivity, isUserSettings } from './validation';
+import { computeCost, overlapsDayWindow } from './utils/time';
+import { computeTagTotals } from './utils/totals';
+import { countTags, rankTags } from './utils/tags';
+import { releaseMultitaskPartner } from './utils/overlaps';
 
-const KEYS = {
-  activities: 'activities',
+export const KEYS = {
+  activities: 'activities', // legacy single-blob key, see migration v2
+  activityPartitionPrefix: 'activities:',
   activityTemplates: 'activityTemplates',
+  runningActivities: 'runningActivities',
   categories: 'categories',
   settings: 'settings',
+  schemaVersion: 'schemaVersion',
+  quarantine: 'quarantine',
+  tagCounts: 'tagCounts', // uses per tag across all activities, kept up to date by every activity write
 } as const;
 
-export async function loadActivities(): Promise<Activity[]> {
-  const raw = await AsyncStorage.getItem(KEYS.activities);
+export const DEFAULT_CATEGORIES: Record<CategoryType, Category> = {
+  good: { id: 'good', name: 'Good Time', color: '#4CAF50', goal: 70, goalPeriod: 'weekly', polarity: 'more', order: 0 },
+  bad: { id: 'bad', name: 'Bad Time', color: '#F44336', goal: 30, goalPeriod: 'weekly', polarity: 'less', order: 1 },
+  selfcare: { id: 'selfcare', name: 'Self Care', color: '#FFC107', goal: 70, goalPeriod: 'weekly', polarity: 'more', order: 2 },
+};
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  bedtime: '23:00',
+  wakeTime: '07:00',
+  themeMode: 'system',
+  weekEndsOn: 'sunday',
+};
+
+export type StorageTopic = 'activities' | 'runningActivities' | 'activityTemplates' | 'categories' | 'settings';
+
+const listeners: Record<StorageTopic, Set<() => void>> = {
+  activities: new Set(),
+  runningActivities: new Set(),
+  activityTemplates: new Set(),
+  categories: new Set(),
+  settings: new Set(),
+};
+
+/**
+ * Calls `listener` after every successful write to `topic`. Returns an
+ * unsubscribe function, so it can be returned straight from a useEffect.
+ */
+export function subscribe(topic: StorageTopic, listener: () => void): () => void {
+  listeners[topic].add(listener);
+  return () => {
+    listeners[topic].delete(listener);
+  };
+}
+
+function notify(topic: StorageTopic) {
+  listeners[topic].forEach((listener) => listener());
+}
+
+export async function loadQuarantine(): Promise<QuarantineEntry[]> {
+  const raw = await AsyncStorage.getItem(KEYS.quarantine);
   if (!raw) return [];
   try {
-    return JSON.parse(raw) as Activity[];
+    return JSON.parse(raw) as QuarantineEntry[];
   } catch (e) {
-    console.error('Failed to parse activities:', e);
+    console.error('Failed to parse quarantine:', e);
     return [];
   }
 }
 
-export async function saveActivities(list: Activity[]): Promise<void> {
-  await AsyncStorage.setItem(KEYS.activities, JSON.stringify(list));
+// Partitions load in parallel and each may quarantine what it rejects, so
+// quarantine writes queue up like activity writes; otherwise two at once
+// would each append to the same old list and one set of records would be lost.
+let quarantineWriteQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueQuarantineWrite<T>(op: () => Promise<T>): Promise<T> {
+  const result = quarantineWriteQueue.then(op);
+  quarantineWriteQueue = result.catch(() => undefined);
+  return result;
+}
+
+export function quarantine(key: string, items: { raw: string; reason: string }[]): Promise<void> {
+  if (items.length === 0) return Promise.resolve();
+  return enqueueQuarantineWrite(async () => {
+    const existing = await loadQuarantine();
+    // A key's cleanup can be queued behind other writes, so a second load may reject the same records
+    const held = new Set(existing.filter((e) => e.key === key).map((e) => e.raw));
+    const fresh = items.filter((item) => !held.has(item.raw));
+    if (fresh.length === 0) return;
+    const quarantinedAt = new Date().toISOString();
+    const entries: QuarantineEntry[] = fresh.map((item) => ({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      key,
+      reason: item.reason,
+      raw: item.raw,
+      quarantinedAt,
+      reviewed: false,
+    }));
+    console.warn(`Quarantined ${entries.length} item(s) from "${key}"`);
+    await AsyncStorage.setItem(KEYS.quarantine, JSON.stringify([...existing, ...entries]));
+  });
+}
+
+export function markQuarantineReviewed(): Promise<void> {
+  return enqueueQuarantineWrite(async () => {
+    const entries = await loadQuarantine();
+    await AsyncStorage.setItem(KEYS.quarantine, JSON.stringify(entries.map((e) => ({ ...e, reviewed: true }))));
+  });
 }
 
-export async function addActivity(activity: Activity): Promise<void> {
-  const list = await loadActivities();
-  list.push(activity);
-  await saveActivities(list);
+export function clearQuarantine(): Promise<void> {
+  return enqueueQuarantineWrite(() => AsyncStorage.removeItem(KEYS.quarantine));
 }
 
-export async function updateActivity(activity: Activity): Promise<void> {
-  const list = await loadActivities();
-  const idx = list.findIndex((a) => a.id === activity.id);
-  if (idx >= 0) {
-    list[idx] = activity;
-    await saveActivities(list);
+/**
+ * Reads and parses a key. A blob that won't parse is moved to quarantine and
+ * the key cleared, so the next save can't overwrite the only copy of it.
+ */
+export async function readStoredJSON(key: string): Promise<unknown> {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    await quarantine(key, [{ raw, reason: `Could not parse JSON: ${e instanceof Error ? e.message : String(e)}` }]);
+    await AsyncStorage.removeItem(key);
+    return null;
   }
 }
 
-export async function deleteActivity(id: string): Promise<void> {
-  const list = await loadActivities();
-  const next = list.filter((a) => a.id !== id);
-  await saveActivities(next);
+// How a loader rewrites a key it had to clean up: straight away, or through
+// the write queue that owns the key
+type CleanupWriter = (op: () => Promise<void>) => Promise<void>;
+
+const writeNow: CleanupWriter = (op) => op();
+
+// Activity keys are only written from the activity write queue. Loaders also
+// run inside it (a transaction reading a partition), so the cleanup is queued
+// behind whatever is running rather than awaited.
+const writeAfterActivityWrites: CleanupWriter = (op) => {
+  enqueueActivityWrite(op).catch((e) => console.error('Failed to clean up activity data:', e));
+  return Promise.resolve();
+};
+
+// Rewrites (or with `next` null, removes) a key last read as `raw`, unless it
+// has been written since; a newer write came from data that was already clean
+async function replaceIfUnchanged(key: string, raw: string, next: string | null): Promise<void> {
+  if ((await AsyncStorage.getItem(key)) !== raw) return;
+  if (next === null) await AsyncStorage.removeItem(key);
+  else await AsyncStorage.setItem(key, next);
 }
 
-export async function loadActivityTemplates(): Promise<ActivityTemplate[]> {
-  const raw = await AsyncStorage.getItem(KEYS.activityTemplates);
+/**
+ * Loads a list key, keeping only records that pass `isValid`. Rejected
+ * records are quarantined and the key rewritten without them through `write`.
+ */
+async function loadValidatedList<T>(key: string, label: string, isValid: (x: unknown) => x is T, write = writeNow): Promise<T[]> {
+  const raw = await AsyncStorage.getItem(key);
   if (!raw) return [];
+  let data: unknown;
   try {
-    return JSON.parse(raw) as ActivityTemplate[];
-  } catch {
+    data = JSON.parse(raw);
+  } catch (e) {
+    await quarantine(key, [{ raw, reason: `Could not parse JSON: ${e instanceof Error ? e.message : String(e)}` }]);
+    await write(() => replaceIfUnchanged(key, raw, null));
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    await quarantine(key, [{ raw, reason: `Expected a list of ${label}s` }]);
+    await write(() => replaceIfUnchanged(key, raw, null));
     return [];
   }
+
+  const valid = data.filter(isValid);
+  if (valid.length < data.length) {
+    const rejected = data.filter((x) => !isValid(x));
+    await quarantine(key, rejected.map((x) => ({ raw: JSON.stringify(x), reason: `Invalid ${label}` })));
+    await write(() => replaceIfUnchanged(key, raw, JSON.stringify(valid)));
+  }
+  return valid;
+}
+
+/**
+ * Activities are partitioned by the local calendar day they start on, one key
+ * per day (e.g. "activities:2025-03-14"), so a mutation only rewrites a single
+ * day's list instead of the whole history.
+ */
+export function activityPartitionKey(startIso: string): string {
+  const d = new Date(startIso);
+  const month = (d.getMonth() + 1).toString().padStart(2, '0');
+  const day = d.getDate().toString().padStart(2, '0');
+  return `${KEYS.activityPartitionPrefix}${d.getFullYear()}-${month}-${day}`;
+}
+
+async function loadActivityPartition(key: string): Promise<Activity[]> {
+  return loadValidatedList(key, 'activity', isActivity, writeAfterActivityWrites);
+}
+
+async function loadActivityPartitionKeys(): Promise<string[]> {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter((k) => k.startsWith(KEYS.activityPartitionPrefix)).sort();
+}
+
+export async function loadActivities(): Promise<Activity[]> {
+  const keys = await loadActivityPartitionKeys();
+  const partitions = await Promise.all(keys.map(loadActivityPartition));
+  return partitions.flat();
+}
+
+/** Local midnight of the earliest day with a partition, i.e. roughly when logging began. */
+export async function loadFirstActivityDay(): Promise<Date | null> {
+  const [first] = await loadActivityPartitionKeys();
+  if (!first) return null;
+  const [y, m, d] = first.slice(KEYS.activityPartitionPrefix.length).split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * Activities overlapping [start, end). Also reads the day before `start`,
+ * since an activity that began then (e.g. last night's sleep) can run into
+ * the range, and the day after `end`, since partitions use the local date
+ * where the activity was logged and that can be a day ahead of this zone's.
+ */
+export async function loadActivitiesInRange(start: Date, end: Date): Promise<Activity[]> {
+  const keys: string[] = [];
+  const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1);
+  const last = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+  while (cursor <= last) {
+    keys.push(activityPartitionKey(cursor.toISOString()));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  const partitions = await Promise.all(keys.map(loadActivityPartition));
+  return partitions.flat().filter((a) => overlapsDayWindow(a.startTime, a.endTime, start, end));
+}
+
+/**
+ * Activities that start on any of `days`, e.g. to see which events in an
+ * import are already here. Reads a day either side, as loadActivitiesInRange
+ * does, in case they were logged in another zone.
+ */
+export async function loadActivitiesStartingOn(days: Date[]): Promise<Activity[]> {
+  const keys = new Set<string>();
+  for (const day of days) {
+    for (const offset of [-1, 0, 1]) {
+      keys.add(activityPartitionKey(new Date(day.getFullYear(), day.getMonth(), day.getDate() + offset).toISOString()));
+    }
+  }
+  const partitions = await Promise.all([...keys].map(loadActivityPartition));
+  return partitions.flat();
+}
+
+/** Activities overlapping [start, end) that carry `tag`. */
+export async function loadActivitiesWithTag(tag: string, start: Date, end: Date): Promise<Activity[]> {
+  const activities = await loadActivitiesInRange(start, end);
+  return activities.filter((a) => a.tags?.includes(tag));
+}
+
+/** Cost per tag for activities overlapping [start, end). */
+export async function loadTagTotals(start: Date, end: Date): Promise<Record<string, number>> {
+  return computeTagTotals(await loadActivitiesInRange(start, end));
+}
+
+async function loadTagCounts(): Promise<Record<string, number> | null> {
+  const data = await readStoredJSON(KEYS.tagCounts);
+  return typeof data === 'object' && data !== null && !Array.isArray(data) ? data as Record<string, number> : null;
+}
+
+/**
+ * Every tag ever used, most used first. Reads the tag counts, which only
+ * need counting from every partition the first time.
+ */
+export async function loadKnownTags(): Promise<string[]> {
+  const counts = await loadTagCounts();
+  if (counts) return rankTags(counts);
+  return enqueueActivityWrite(async () => {
+    const counted = countTags(await loadActivities(), {});
+    await AsyncStorage.setItem(KEYS.tagCounts, JSON.stringify(counted));
+    return rankTags(counted);
+  });
+}
+
+// Every activity and running-timer write goes through this queue, so two
+// read-modify-write cycles on the same key can never interleave and lose an update.
+let activityWriteQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueActivityWrite<T>(op: () => Promise<T>): Promise<T> {
+  const result = activityWriteQueue.then(op);
+  // A failed operation must not block the ones queued behind it
+  activityWriteQueue = result.catch(() => undefined);
+  return result;
+}
+
+export interface ActivityTransaction {
+  add(activity: Activity): Promise<void>;
+  /**
+   * Pass `previousStartTime` when the start may have moved, so the old
+   * partition can be found without scanning every day.
+   */
+  update(activity: Activity, previousStartTime?: string): Promise<void>;
+  remove(activity: Pick<Activity, 'id' | 'startTime'>): Promise<void>;
+}
+
+/**
+ * Runs `work` against a staged copy of the partitions it touches and writes
+ * them back together once it resolves. If `work` throws, nothing is written.
+ */
+export function runActivityTransaction<T>(work: (tx: ActivityTransaction) => Promise<T>): Promise<T> {
+  return enqueueActivityWrite(() => applyActivityTransaction(work));
+}
+
+// The transaction itself, for callers already holding the write queue
+async function applyActivityTransaction<T>(work: (tx: ActivityTransaction) => Promise<T>): Promise<T> {
+  const staged = new Map<string, Activity[]>();
+  const original = new Map<string, Activity[]>();
+  const dirty = new Set<string>();
+
+  async function read(key: string): Promise<Activity[]> {
+    if (!staged.has(key)) {
+      const list = await loadActivityPartition(key);
+      original.set(key, list);
+      staged.set(key, list);
+    }
+    return staged.get(key)!;
+  }
+
+  function write(key: string, list: Activity[]) {
+    staged.set(key, list);
+    dirty.add(key);
+  }
+
+  async function findPartition(id: string, hintKey: string): Promise<string | null> {
+    if ((await read(hintKey)).some((a) => a.id === id)) return hintKey;
+    // Caller didn't know where it lived; fall back to a full scan
+    for (const key of await loadActivityPartitionKeys()) {
+      if ((await read(key)).some((a) => a.id === id)) return key;
+    }
+    return null;
+  }
+
+  const tx: ActivityTransaction = {
+    async add(activity) {
+      const key = activityPartitionKey(activity.startTime);
+      write(key, [...(await read(key)), activity]);
+    },
+    async update(activity, previousStartTime) {
+      const fromKey = await findPartition(activity.id, activityPartitionKey(previousStartTime ?? activity.startTime));
+      if (!fromKey) return;
+      const toKey = activityPartitionKey(activity.startTime);
+      if (fromKey === toKey) {
+        write(toKey, (await read(toKey)).map((a) => (a.id === activity.id ? activity : a)));
+      } else {
+        write(fromKey, (await read(fromKey)).filter((a) => a.id !== activity.id));
+        write(toKey, [...(await read(toKey)), activity]);
+      }
+    },
+    async remove(activity) {
+      const key = await findPartition(activity.id, activityPartitionKey(activity.startTime));
+      if (!key) return;
+      const removed = (await read(key)).find((a) => a.id === activity.id)!;
+      write(key, (await read(key)).filter((a) => a.id !== activity.id));
+      // Multitask partners get back the share of the overlap they weren't charged
+      for (const link of removed.multitask ?? []) {
+        const partnerKey = await findPartition(link.activityId, key);
+        if (!partnerKey) continue;
+        write(partnerKey, (await read(partnerKey)).map((a) => (a.id === link.activityId ? releaseMultitaskPartner(a, removed) : a)));
+      }
+    },
+  };
+
+  const result = await work(tx);
+
+  // Everything goes out in one multiSet, emptied partitions included, so the
+  // commit lands whole. Emptied keys are only deleted after that, as tidying.
+  const keys = [...dirty];
+  const sets: [string, string][] = keys.map((k) => [k, JSON.stringify(staged.get(k))]);
+  const removals = keys.filter((k) => staged.get(k)!.length === 0);
+  // Tag counts follow the partitions; until they've been counted once there's nothing to update
+  const tagCounts = keys.length > 0 ? await loadTagCounts() : null;
+  if (tagCounts) {
+    for (const k of keys) {
+      countTags(original.get(k)!, tagCounts, -1);
+      countTags(staged.get(k)!, tagCounts);
+    }
+    sets.push([KEYS.tagCounts, JSON.stringify(tagCounts)]);
+  }
+  if (sets.length > 0) await AsyncStorage.multiSet(sets);
+  if (removals.length > 0) await AsyncStorage.multiRemove(removals);
+  if (keys.length > 0) notify('activities');
+  return result;
+}
+
+function groupByPartition(list: Activity[]): Map<string, Activity[]> {
+  const grouped = new Map<string, Activity[]>();
+  for (const activity of list) {
+    const key = activityPartitionKey(activity.startTime);
+    grouped.set(key, [...(grouped.get(key) ?? []), activity]);
+  }
+  return grouped;
+}
+
+/** Replaces the entire activity history. */
+export function saveActivities(list: Activity[]): Promise<void> {
+  return enqueueActivityWrite(async () => {
+    const grouped = groupByPartition(list);
+    const stale = (await loadActivityPartitionKeys()).filter((k) => !grouped.has(k));
+    // New history first, so failing partway leaves extra days rather than missing ones.
+    // Tag counts are recounted from the new history when next needed.
+    await AsyncStorage.multiSet([...grouped].map(([key, acts]) => [key, JSON.stringify(acts)]));
+    await AsyncStorage.multiRemove([...stale, KEYS.tagCounts]);
+    notify('activities');
+  });
+}
+
+export function addActivity(activity: Activity): Promise<void> {
+  return runActivityTransaction((tx) => tx.add(activity));
+}
+
+/** Adds several activities as one unit, e.g. logging a whole routine. */
+export function addActivities(list: Activity[]): Promise<void> {
+  return runActivityTransaction(async (tx) => {
+    for (const activity of list) await tx.add(activity);
+  });
+}
+
+export function updateActivity(activity: Activity, previousStartTime?: string): Promise<void> {
+  return runActivityTransaction((tx) => tx.update(activity, previousStartTime));
+}
+
+export function deleteActivity(activity: Pick<Activity, 'id' | 'startTime'>): Promise<void> {
+  return runActivityTransaction((tx) => tx.remove(activity));
+}
+
+/** How many past activities were logged from the template. */
+export async function countActivitiesForTemplate(templateId: string): Promise<number> {
+  return (await loadActivities()).filter((a) => a.templateId === templateId).length;
+}
+
+/**
+ * Copies a template's current name and category onto every activity logged
+ * from it, e.g. after a rename. Returns how many activities changed.
+ */
+export async function applyTemplateToActivities(template: ActivityTemplate): Promise<number> {
+  const stale = (await loadActivities()).filter((a) => a.templateId === template.id
+    && (a.name !== template.name || a.categoryType !== template.categoryType));
+  await runActivityTransaction(async (tx) => {
+    for (const a of stale) await tx.update({ ...a, name: template.name, categoryType: template.categoryType });
+  });
+  return stale.length;
+}
+
+export async function loadRunningActivities(): Promise<RunningActivity[]> {
+  return loadValidatedList(KEYS.runningActivities, 'running activity', isRunningActivity, writeAfterActivityWrites);
+}
+
+async function saveRunningActivities(list: RunningActivity[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.runningActivities, JSON.stringify(list));
+  notify('runningActivities');
+}
+
+export function startRunningActivity(running: RunningActivity): Promise<void> {
+  return enqueueActivityWrite(async () => {
+    await saveRunningActivities([...(await loadRunningActivities()), running]);
+  });
+}
+
+/**
+ * Ends a running activity at `end` and logs it. The running entry is only
+ * dropped once the activity is written, so a crash in between can't lose it.
+ */
+export function stopRunningActivity(id: string, end: Date = new Date()): Promise<Activity | null> {
+  return enqueueActivityWrite(async () => {
+    const running = (await loadRunningActivities()).find((r) => r.id === id);
+    if (!running) return null;
+    const activity = finishRunning(running, end);
+    await applyActivityTransaction(async (tx) => {
+      await tx.remove(activity); // no-op unless a previous stop was interrupted
+      await tx.add(activity);
+    });
+    await saveRunningActivities((await loadRunningActivities()).filter((r) => r.id !== id));
+    return activity;
+  });
+}
+
+/**
+ * Stops every running timer where `activity` starts and logs them along with
+ * it in one write, e.g. going to bed. Nothing is written if any of it fails.
+ */
+export function stopAllRunningAndAdd(activity: Activity): Promise<void> {
+  return enqueueActivityWrite(async () => {
+    const running = await loadRunningActivities();
+    const stopped = running.map((r) => finishRunning(r, new Date(activity.startTime)));
+    await applyActivityTransaction(async (tx) => {
+      for (const a of stopped) {
+        await tx.remove(a); // no-op unless a previous stop was interrupted
+        await tx.add(a);
+      }
+      await tx.add(activity);
+    });
+    const stoppedIds = new Set(stopped.map((a) => a.id));
+    await saveRunningActivities((await loadRunningActivities()).filter((r) => !stoppedIds.has(r.id)));
+  });
+}
+
+function finishRunning(running: RunningActivity, end: Date): Activity {
+  const endTime = end.toISOString();
+  return { ...running, endTime, cost: computeCost(running.startTime, endTime) };
+}
+
+export async function loadActivityTemplates(): Promise<ActivityTemplate[]> {
+  return loadValidatedList(KEYS.activityTemplates, 'activity template', isActivityTemplate);
 }
 
 export async function saveActivityTemplates(list: ActivityTemplate[]): Promise<void> {
   await AsyncStorage.setItem(KEYS.activityTemplates, JSON.stringify(list));
+  notify('activityTemplates');
 }
 
 export async function loadCategories(): Promise<Record<CategoryType, Category>> {
-  const raw = await AsyncStorage.getItem(KEYS.categories);
-  if (!raw) return { good: { name: 'Good Time', color: '#4CAF50' }, bad: { name: 'Bad Time', color: '#F44336' }, selfcare: { name: 'Self Care', color: '#FFC107' } };
-  try {
-    return JSON.parse(raw) as Record<CategoryType, Category>;
-  } catch {
-    return { good: { name: 'Good Time', color: '#4CAF50' }, bad: { name: 'Bad Time', color: '#F44336' }, selfcare: { name: 'Self Care', color: '#FFC107' } };
+  const data = await readStoredJSON(KEYS.categories);
+  if (data === null) return { ...DEFAULT_CATEGORIES };
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    await quarantine(KEYS.categories, [{ raw: JSON.stringify(data), reason: 'Expected a map of categories' }]);
+    await AsyncStorage.removeItem(KEYS.categories);
+    return { ...DEFAULT_CATEGORIES };
+  }
+
+  const result: Record<CategoryType, Category> = {};
+  const rejected: { raw: string; reason: string }[] = [];
+  for (const [id, category] of Object.entries(data as Record<string, unknown>)) {
+    if (isCategory(category) && category.id === id) {
+      result[id] = category;
+    } else {
+      rejected.push({ raw: JSON.stringify({ [id]: category }), reason: 'Invalid category' });
+    }
+  }
+  // Never leave the app with nothing to categorize under
+  if (Object.keys(result).length === 0) Object.assign(result, DEFAULT_CATEGORIES);
+  if (rejected.length > 0) {
+    await quarantine(KEYS.categories, rejected);
+    await AsyncStorage.setItem(KEYS.categories, JSON.stringify(result));
   }
+  return result;
 }
 
 export async function saveCategories(categories: Record<CategoryType, Category>): Promise<void> {
   await AsyncStorage.setItem(KEYS.categories, JSON.stringify(categories));
+  notify('categories');
 }
 
 export async function loadSettings(): Promise<UserSettings | null> {
-  const raw = await AsyncStorage.getItem(KEYS.settings);
-  if (!raw) return null;
-  try {
-    return JSON.parse(raw) as UserSettings;
-  } catch {
+  const data = await readStoredJSON(KEYS.settings);
+  if (data === null) return null;
+  if (!isUserSettings(data)) {
+    await quarantine(KEYS.settings, [{ raw: JSON.stringify(data), reason: 'Invalid settings' }]);
+    await AsyncStorage.removeItem(KEYS.settings);
     return null;
   }
+  return data;
 }
 
 export async function saveSettings(settings: UserSettings): Promise<void> {
   await AsyncStorage.setItem(KEYS.settings, JSON.stringify(settings));
+  notify('settings');
 }
 
-function idFromName(name: string): string {
-  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-}
-
-export async function ensureDefaults(): Promise<void> {
-  const [templates, cats, settings] = await Promise.all([
-    loadActivityTemplates(),
-    loadCategories(),
-    loadSettings(),
-  ]);
-
-  if (!settings) {
-    await saveSettings({
-      bedtime: '23:00',
-      wakeTime: '07:00',
-      themeMode: 'system',
-      goals: { good: 70, bad: 30, selfcare: 70 },
-      weekEndsOn: 'sunday',
-      quickActivities: [
-        { id: 'sleep', templateId: 'sleep', startTime: { type: 'bedtime' }, endTime: { type: 'wakeTime' }, enabled: true },
-        { id: 'bath', templateId: 'bath', startTime: { type: 'wakeTime' }, endTime: { type: 'offset', minutes: 30 }, enabled: true },
-        { id: 'work', templateId: 'work', startTime: { type: 'offset', minutes: 60 }, endTime: { type: 'offset', minutes: 540 }, enabled: true },
-      ]
-    });
-  } else {
-    let needsUpdate = false;
-    const updated = { ...settings };
+/** Everything a backup carries. */
+export interface StoredData {
+  activities: Activity[];
+  runningActivities: RunningActivity[];
+  activityTemplates: ActivityTemplate[];
+  categories: Record<CategoryType, Category>;
+  settings: UserSettings | null; // null keeps the stored settings
+}
 
-    if (!settings.goals) {
-      updated.goals = { good: 70, bad: 30, selfcare: 70 };
-      needsUpdate = true;
-    }
-    if (!settings.weekEndsOn) {
-      updated.weekEndsOn = 'sunday';
-      needsUpdate = true;
-    }
-    if (!settings.quickActivities) {
-      updated.quickActivities = [
-        { id: 'sleep', templateId: 'sleep', startTime: { type: 'bedtime' }, endTime: { type: 'wakeTime' }, enabled: true },
-        { id: 'bath', templateId: 'bath', startTime: { type: 'wakeTime' }, endTime: { type: 'offset', minutes: 30 }, enabled: true },
-        { id: 'work', templateId: 'work', startTime: { type: 'offset', minutes: 60 }, endTime: { type: 'offset', minutes: 540 }, enabled: true },
-      ];
-      needsUpdate = true;
-    }
+/**
+ * Rewrites all stored data from what's there now, e.g. to restore a backup.
+ * It goes out in one multiSet, so a failure leaves the old data rather than
+ * a mix, and it runs in the activity write queue so nothing changes between
+ * the read and the write. Days left without activities are removed after.
+ */
+export function rewriteAllData(change: (current: StoredData) => StoredData): Promise<void> {
+  return enqueueActivityWrite(async () => {
+    const [activities, runningActivities, activityTemplates, categories, settings] = await Promise.all([
+      loadActivities(),
+      loadRunningActivities(),
+      loadActivityTemplates(),
+      loadCategories(),
+      loadSettings(),
+    ]);
+    const next = change({ activities, runningActivities, activityTemplates, categories, settings });
 
-    if (needsUpdate) {
-      await saveSettings(updated);
-    }
-  }
+    const grouped = groupByPartition(next.activities);
+    const stale = (await loadActivityPartitionKeys()).filter((k) => !grouped.has(k));
+    const sets: [string, string][] = [
+      ...[...grouped].map(([key, acts]): [string, string] => [key, JSON.stringify(acts)]),
+      [KEYS.runningActivities, JSON.stringify(next.runningActivities)],
+      [KEYS.activityTemplates, JSON.stringify(next.activityTemplates)],
+      [KEYS.categories, JSON.stringify(next.categories)],
+    ];
+    if (next.settings) sets.push([KEYS.settings, JSON.stringify(next.settings)]);
+    await AsyncStorage.multiSet(sets);
+    await AsyncStorage.multiRemove([...stale, KEYS.tagCounts]);
+    (['activities', 'runningActivities', 'activityTemplates', 'categories', 'settings'] as StorageTopic[]).forEach(notify);
+  });
+}
 
-  // Categories always exist with defaults if missing
-  if (!cats || Object.keys(cats).length === 0) {
-    await saveCategories({
-      good: { name: 'Good Time', color: '#4CAF50' },
-      bad: { name: 'Bad Time', color: '#F44336' },
-      selfcare: { name: 'Self Care', color: '#FFC107' },
-    });
-  }
+/**
+ * Schema version of the data currently in storage. 0 means nothing has been
+ * migrated yet (fresh install, or data written before versioning existed).
+ */
+export async function loadSchemaVersion(): Promise<number> {
+  const raw = await AsyncStorage.getItem(KEYS.schemaVersion);
+  const version = raw ? parseInt(raw, 10) : 0;
+  return Number.isNaN(version) ? 0 : version;
+}
 
-  // Activity templates
-  if (!templates || templates.length === 0) {
-    const defaults: { name: string; categoryType: CategoryType }[] = [
-      { name: 'Reading', categoryType: 'good' },
-      { name: 'Exercise', categoryType: 'good' },
-      { name: 'Work', categoryType: 'good' },
-      { name: 'Social Media', categoryType: 'bad' },
-      { name: 'Sleep', categoryType: 'selfcare' },
-      { name: 'Bath', categoryType: 'selfcare' },
-      { name: 'Tidying', categoryType: 'selfcare' },
-    ];
-    const templateObjs: ActivityTemplate[] = defaults.map((t) => ({ id: idFromName(t.name), ...t }));
-    await saveActivityTemplates(templateObjs);
-  }
+export async function saveSchemaVersion(version: number): Promise<void> {
+  await AsyncStorage.setItem(KEYS.schemaVersion, String(version));
 }
@@ -0,0 +1,130 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Activity, ActivityTemplate, Category, CategoryType, RunningActivity, UserSettings } from './types';
+import {
+  DEFAULT_CATEGORIES,
+  DEFAULT_SETTINGS,
+  loadActivitiesInRange,
+  loadActivityTemplates,
+  loadFirstActivityDay,
+  loadCategories,
+  loadRunningActivities,
+  loadSettings,
+  subscribe,
+} from './storage';
+
+interface StoreState {
+  settings: UserSettings;
+  templates: ActivityTemplate[];
+  categories: Record<CategoryType, Category>;
+  runningActivities: RunningActivity[];
+}
+
+const StoreContext = createContext<StoreState | null>(null);
+
+/**
+ * Holds the app-wide settings, templates, categories and running timers in memory and keeps
+ * them in sync with storage. Writes still go through storage.ts; every mounted
+ * consumer re-renders as soon as a save lands.
+ */
+export function StoreProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [templates, setTemplates] = useState<ActivityTemplate[]>([]);
+  const [categories, setCategories] = useState<Record<CategoryType, Category>>(DEFAULT_CATEGORIES);
+  const [runningActivities, setRunningActivities] = useState<RunningActivity[]>([]);
+
+  useEffect(() => {
+    const reloadSettings = async () => setSettings((await loadSettings()) ?? DEFAULT_SETTINGS);
+    const reloadTemplates = async () => setTemplates(await loadActivityTemplates());
+    const reloadCategories = async () => setCategories(await loadCategories());
+    const reloadRunning = async () => setRunningActivities(await loadRunningActivities());
+
+    reloadSettings();
+    reloadTemplates();
+    reloadCategories();
+    reloadRunning();
+
+    const unsubscribers = [
+      subscribe('settings', reloadSettings),
+      subscribe('activityTemplates', reloadTemplates),
+      subscribe('categories', reloadCategories),
+      subscribe('runningActivities', reloadRunning),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  return (
+    <StoreContext.Provider value={{ settings, templates, categories, runningActivities }}>
+      {children}
+    </StoreContext.Provider>
+  );
+}
+
+function useStore(): StoreState {
+  const store = useContext(StoreContext);
+  if (!store) throw new Error('useStore must be used inside <StoreProvider>');
+  return store;
+}
+
+export function useSettings(): UserSettings {
+  return useStore().settings;
+}
+
+export function useTemplates(): ActivityTemplate[] {
+  return useStore().templates;
+}
+
+export function useCategories(): Record<CategoryType, Category> {
+  return useStore().categories;
+}
+
+/** Timers that have been started and not stopped yet, oldest first. */
+export function useRunningActivities(): RunningActivity[] {
+  return useStore().runningActivities;
+}
+
+/**
+ * Activities overlapping [start, end), reloaded whenever any activity is
+ * written. Only the partitions covering the range are read.
+ */
+export function useActivitiesInRange(start: Date, end: Date): Activity[] {
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+
+  useEffect(() => {
+    let cancelled = false;
+    const reload = async () => {
+      const list = await loadActivitiesInRange(new Date(startMs), new Date(endMs));
+      if (!cancelled) setActivities(list);
+    };
+    reload();
+    const unsubscribe = subscribe('activities', reload);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [startMs, endMs]);
+
+  return activities;
+}
+
+/** The first day anything was logged, kept current as activities are written. */
+export function useFirstActivityDay(): Date | null {
+  const [day, setDay] = useState<Date | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const reload = async () => {
+      const first = await loadFirstActivityDay();
+      if (!cancelled) setDay(first);
+    };
+    reload();
+    const unsubscribe = subscribe('activities', reload);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return day;
+}
@@ -1,31 +1,59 @@
-export type CategoryType = 'good' | 'bad' | 'selfcare';
+// Id of a Category. The built-in ones are 'good', 'bad' and 'selfcare';
+// user-created categories get generated ids.
+export type CategoryType = string;
+
+export type CategoryPolarity = 'more' | 'less'; // more is better (goal is a minimum), or less is better (goal is a cap)
+
+export type GoalPeriod = 'daily' | 'weekly' | 'monthly';
 
 export interface Category {
+  id: CategoryType;
   name: string; // e.g. 'Good Time', 'Bad Time', 'Self Care'
   color: string; // hex color
+  goal: number; // dollars per goalPeriod, a minimum or a cap depending on polarity
+  goalPeriod: GoalPeriod; // span the goal is counted over
+  polarity: CategoryPolarity;
+  order: number; // display position, ascending
+  archived?: boolean; // hidden from pickers and goals, but old activities still resolve
+}
+
+// e.g. Social Media ≤ $1.00/day, Spanish ≥ $0.25/day
+export interface TemplateBudget {
+  amount: number; // dollars per period
+  period: GoalPeriod;
+  polarity: CategoryPolarity; // 'more' is a minimum to reach, 'less' a cap to stay under
 }
 
 export interface ActivityTemplate {
   id: string;
   name: string; // e.g. 'Reading', 'Exercise'
   categoryType: CategoryType; // references which category type this belongs to
+  archived?: boolean; // hidden from pickers, but past activities still resolve it
+  budget?: TemplateBudget;
 }
 
 export interface Activity {
   id: string;
   name: string;
   categoryType: CategoryType; // which category type
+  templateId?: string; // template it was logged from; name and category are copied at save time
   startTime: string; // ISO timestamp
   endTime: string; // ISO timestamp
   cost: number; // derived from duration in hours (can exceed 1 hour)
+  notes?: string; // free text, e.g. what was read or who we met
+  tags?: string[]; // lowercase, without the leading '#'
+  multitask?: MultitaskLink[]; // overlaps the user marked as intentional
+  timeZone?: string; // IANA zone it was logged in; its times are shown there so they don't shift after travel
 }
 
-export interface CategoryGoals {
-  good: number;
-  bad: number;
-  selfcare: number;
+export interface MultitaskLink {
+  activityId: string; // the activity sharing the time
+  share: number; // 0-1, fraction of the shared time's cost charged to this activity
 }
 
+/** An activity that has started but not ended yet. Stopping it logs a normal Activity with the same id. */
+export type RunningActivity = Omit<Activity, 'endTime' | 'cost'>;
+
 export type TimeReference =
   | { type: 'bedtime' }
   | { type: 'wakeTime' }
@@ -39,11 +67,62 @@ export interface QuickActivity {
   enabled: boolean;
 }
 
-export interface UserSettings {
+export interface CalendarImportRule {
+  id: string;
+  match: string; // case-insensitive text to look for in an event title
+  templateId: string; // template to log matching events as
+}
+
+export interface ImportMapping {
+  id: string;
+  source: 'project' | 'tag'; // which column of a Toggl/Clockify export to match
+  value: string; // project or tag name, matched case-insensitively
+  templateId?: string; // log as this template...
+  categoryType?: CategoryType; // ...or keep the entry's own name under this category
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// A sleep block inside the waking day, e.g. an afternoon nap
+export interface NapTimes {
+  start: string; // e.g. "14:00"
+  end: string; // e.g. "14:30"
+}
+
+// Sleep times for one date: the wake-up that starts its day and the bedtime
+// that ends it (past midnight when earlier than the wake time)
+export interface SleepTimes {
   bedtime: string; // e.g. "23:00"
   wakeTime: string; // e.g. "07:00"
+  naps?: NapTimes[];
+  plannedBedtime?: string; // the bedtime "I'm going to bed now" replaced; sleep debt still counts from it
+}
+
+// A repeating cycle of schedules, e.g. 4 night shifts then 4 days off
+export interface SleepRotation {
+  startDate: string; // "YYYY-MM-DD" of the cycle's first day
+  days: (SleepTimes | null)[]; // one per day of the cycle; null falls back to the weekly schedule
+}
+
+export interface UserSettings {
+  bedtime: string; // usual bedtime, e.g. "23:00"
+  wakeTime: string; // usual wake time, e.g. "07:00"
+  naps?: NapTimes[]; // usual naps
+  sleepRotation?: SleepRotation; // shift pattern; takes precedence over weeklySleep
+  weeklySleep?: Partial<Record<Weekday, SleepTimes>>; // weekdays that differ from the usual times
+  sleepOverrides?: Record<string, SleepTimes>; // one-off times keyed by date, "YYYY-MM-DD"
   themeMode?: 'light' | 'dark' | 'system'; // theme preference
-  goals?: CategoryGoals; // target dollars for each category
-  weekEndsOn?: 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday'; // last day of week
+  weekEndsOn?: Weekday; // last day of week
   quickActivities?: QuickActivity[]; // one-tap preset activities
+  calendarImportRules?: CalendarImportRule[]; // title → template mapping for .ics imports
+  importMappings?: ImportMapping[]; // project/tag → template or category for CSV imports
+}
+
+export interface QuarantineEntry {
+  id: string;
+  key: string; // storage key the data was read from
+  reason: string; // why it was rejected
+  raw: string; // the rejected blob or record, exactly as stored
+  quarantinedAt: string; // ISO timestamp
+  reviewed: boolean; // user has seen it on the recovery screen
 }
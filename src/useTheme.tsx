@@ -1,35 +1,14 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Appearance, ColorSchemeName } from 'react-native';
 import { darkTheme, lightTheme, Theme, ThemeMode } from './theme';
-import { loadSettings } from './storage';
+import { useSettings } from './store';
 
-export function useTheme(): { theme: Theme; themeMode: ThemeMode; effectiveScheme: 'light' | 'dark'; reloadTheme: () => void } {
-  const [themeMode, setThemeMode] = useState<ThemeMode>('system');
+export function useTheme(): { theme: Theme; themeMode: ThemeMode; effectiveScheme: 'light' | 'dark' } {
+  // Theme preference comes from the shared store, so every consumer
+  // (including the nav chrome) updates the moment Settings saves it
+  const settings = useSettings();
+  const themeMode: ThemeMode = settings.themeMode || 'system';
   const [systemScheme, setSystemScheme] = useState<ColorSchemeName>(Appearance.getColorScheme());
-  const [refreshKey, setRefreshKey] = useState(0);
-
-  const loadThemePreference = useCallback(async () => {
-    const settings = await loadSettings();
-    console.log('📱 Loading theme preference:', settings?.themeMode);
-    if (settings?.themeMode) {
-      setThemeMode(settings.themeMode);
-      console.log('🎨 Theme mode set to:', settings.themeMode);
-    } else {
-      setThemeMode('system');
-      console.log('🎨 Theme mode defaulting to: system');
-    }
-  }, []);
-
-  // Reload theme function that forces a refresh
-  const reloadTheme = useCallback(async () => {
-    await loadThemePreference();
-    setRefreshKey(k => k + 1); // Force re-render
-  }, [loadThemePreference]);
-
-  // Load theme preference from storage on mount
-  useEffect(() => {
-    loadThemePreference();
-  }, [loadThemePreference]);
 
   // Listen to system theme changes
   useEffect(() => {
@@ -47,14 +26,5 @@ export function useTheme(): { theme: Theme; themeMode: ThemeMode; effectiveSchem
 
   const theme = effectiveScheme === 'light' ? lightTheme : darkTheme;
 
-  console.log('🎨 useTheme result:', {
-    themeMode,
-    systemScheme,
-    effectiveScheme,
-    themeBackground: theme.colors.background,
-    refreshKey,
-  });
-
-  return { theme, themeMode, effectiveScheme, reloadTheme };
+  return { theme, themeMode, effectiveScheme };
 }
-
@@ -0,0 +1,54 @@
+import { Activity, Category } from '../../types';
+import { activitiesToICS, activityIdForEvent, parseICS } from '../ical';
+
+const categories: Record<string, Category> = {
+  good: { id: 'good', name: 'Good Time', color: '#4CAF50', goal: 70, goalPeriod: 'weekly', polarity: 'more', order: 0 },
+};
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', ...events.flatMap((e) => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('activityIdForEvent', () => {
+  it('gives our own exports their original id back', () => {
+    const activity: Activity = {
+      id: '1710000000000-abc123',
+      name: 'Reading',
+      categoryType: 'good',
+      startTime: '2024-03-14T09:00:00.000Z',
+      endTime: '2024-03-14T10:00:00.000Z',
+      cost: 1,
+    };
+    const [event] = parseICS(activitiesToICS([activity], categories));
+    expect(activityIdForEvent(event)).toBe(activity.id);
+  });
+
+  it('keeps edited occurrences of a repeating event apart from the series', () => {
+    const events = parseICS(calendar(
+      ['UID:standup@example.com', 'DTSTART:20240314T090000Z', 'DTEND:20240314T091500Z', 'RRULE:FREQ=DAILY', 'SUMMARY:Standup'],
+      ['UID:standup@example.com', 'RECURRENCE-ID:20240315T090000Z', 'DTSTART:20240315T100000Z', 'DTEND:20240315T101500Z', 'SUMMARY:Standup'],
+    ));
+    expect(events.map((e) => e.repeats)).toEqual([true, false]);
+    expect(events.map(activityIdForEvent)).toEqual(['ics-standup@example.com', 'ics-standup@example.com-20240315T090000Z']);
+  });
+});
+
+describe('activitiesToICS', () => {
+  it('folds long lines by octets without splitting characters', () => {
+    const name = '📚 Lecture de « Dune » '.repeat(8).trim();
+    const activity: Activity = {
+      id: 'a',
+      name,
+      categoryType: 'good',
+      startTime: '2024-03-14T09:00:00.000Z',
+      endTime: '2024-03-14T10:00:00.000Z',
+      cost: 1,
+    };
+    const ics = activitiesToICS([activity], categories);
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+    }
+    expect(parseICS(ics)[0].title).toBe(name);
+  });
+});
@@ -0,0 +1,80 @@
+import { Activity, MultitaskLink } from '../../types';
+import { findOverlaps, resolveOverlaps } from '../overlaps';
+
+function at(hour: number): string {
+  return new Date(Date.UTC(2025, 2, 14, 0, hour * 60)).toISOString();
+}
+
+function activity(id: string, start: number, end: number, multitask?: MultitaskLink[]): Activity {
+  return {
+    id,
+    name: id,
+    categoryType: 'good',
+    startTime: at(start),
+    endTime: at(end),
+    cost: end - start,
+    ...(multitask && { multitask }),
+  };
+}
+
+describe('resolveOverlaps', () => {
+  it('cuts the middle out of an existing entry when trimming it', () => {
+    const existing = activity('old', 9, 12);
+    const next = activity('new', 10, 11);
+    const { activity: result, changes } = resolveOverlaps(next, [existing], { kind: 'trimExisting' });
+
+    expect(result).toEqual(next);
+    expect(changes.removed).toEqual([]);
+    expect(changes.updated).toEqual([{ ...existing, endTime: at(10), cost: 1 }]);
+    expect(changes.added).toHaveLength(1);
+    expect(changes.added[0]).toMatchObject({ startTime: at(11), endTime: at(12), cost: 1 });
+    expect(changes.added[0].id).not.toBe('old');
+  });
+
+  it('removes an existing entry that is covered entirely', () => {
+    const existing = activity('old', 10, 11);
+    const { changes } = resolveOverlaps(activity('new', 9, 12), [existing], { kind: 'trimExisting' });
+    expect(changes).toEqual({ added: [], updated: [], removed: [existing] });
+  });
+
+  it('trims the new entry and leaves the existing one alone', () => {
+    const { activity: result, changes } = resolveOverlaps(activity('new', 10, 12), [activity('old', 11, 13)], { kind: 'trimNew' });
+    expect(result).toMatchObject({ id: 'new', startTime: at(10), endTime: at(11), cost: 1 });
+    expect(changes).toEqual({ added: [], updated: [], removed: [] });
+  });
+
+  it('gives each side half of the shared time when splitting', () => {
+    const { activity: result, changes } = resolveOverlaps(activity('new', 10, 12), [activity('old', 11, 13)], { kind: 'split' });
+    expect(result).toMatchObject({ endTime: at(11.5), cost: 1.5 });
+    expect(changes.updated).toEqual([expect.objectContaining({ id: 'old', startTime: at(11.5), cost: 1.5 })]);
+  });
+
+  it('links both sides and charges the shared time by share when multitasking', () => {
+    const { activity: result, changes } = resolveOverlaps(
+      activity('new', 10, 12),
+      [activity('old', 11, 13)],
+      { kind: 'multitask', share: 0.25 },
+    );
+    expect(result).toMatchObject({ cost: 1.25, multitask: [{ activityId: 'old', share: 0.25 }] });
+    expect(changes.updated).toEqual([expect.objectContaining({ id: 'old', cost: 1.75, multitask: [{ activityId: 'new', share: 0.75 }] })]);
+    expect(findOverlaps(result!, changes.updated)).toEqual([]);
+  });
+
+  it('releases the partner of an existing entry that is trimmed away', () => {
+    const existing = activity('old', 10, 11, [{ activityId: 'partner', share: 0.5 }]);
+    const partner = { ...activity('partner', 10, 11, [{ activityId: 'old', share: 0.5 }]), cost: 0.5 };
+    const { changes } = resolveOverlaps(activity('new', 9, 12), [existing], { kind: 'trimExisting' }, [existing, partner]);
+
+    expect(changes.removed).toEqual([existing]);
+    expect(changes.updated).toEqual([activity('partner', 10, 11)]);
+  });
+
+  it('releases the partner of the new entry when it is trimmed away', () => {
+    const next = { ...activity('new', 10, 11, [{ activityId: 'partner', share: 0.5 }]), cost: 0.5 };
+    const partner = { ...activity('partner', 10, 11, [{ activityId: 'new', share: 0.5 }]), cost: 0.5 };
+    const { activity: result, changes } = resolveOverlaps(next, [activity('old', 9, 12)], { kind: 'trimNew' }, [partner]);
+
+    expect(result).toBeNull();
+    expect(changes.updated).toEqual([activity('partner', 10, 11)]);
+  });
+});
@@ -0,0 +1,91 @@
+import { ImportMapping } from '../../types';
+import { TrackerImportError, entryToActivity, findMapping, parseTrackerCSV } from '../timeTrackerImport';
+
+const TOGGL_HEADER = 'User,Email,Project,Description,Start date,Start time,End date,End time,Duration,Tags';
+
+function toggl(...rows: string[]): string {
+  return [TOGGL_HEADER, ...rows].join('\n');
+}
+
+const READING = 'Me,me@example.com,Books,Dune,2024-03-14,09:00:00,2024-03-14,10:00:00,01:00:00,focus';
+const WORK = 'Me,me@example.com,Job,Emails,2024-03-15,13:00:00,2024-03-15,14:30:00,01:30:00,';
+
+describe('parseTrackerCSV', () => {
+  it('gives a row the same id when a later export covers more dates', () => {
+    const first = parseTrackerCSV(toggl(READING));
+    const wider = parseTrackerCSV(toggl(WORK, READING));
+    expect(first.entries).toHaveLength(1);
+    expect(wider.entries.map((e) => e.activityId)).toContain(first.entries[0].activityId);
+  });
+
+  it('tells identical rows apart and keeps the first copy on its usual id', () => {
+    const single = parseTrackerCSV(toggl(READING)).entries;
+    const doubled = parseTrackerCSV(toggl(WORK, READING, READING)).entries;
+    const ids = doubled.map((e) => e.activityId);
+    expect(new Set(ids).size).toBe(3);
+    expect(ids[1]).toBe(single[0].activityId);
+    expect(parseTrackerCSV(toggl(READING, READING, WORK)).entries.map((e) => e.activityId)).toEqual([ids[1], ids[2], ids[0]]);
+  });
+
+  it('falls back to the duration and counts rows it cannot place', () => {
+    const { entries, skipped } = parseTrackerCSV(toggl(
+      'Me,me@example.com,Books,Dune,2024-03-14,09:00:00,,,00:45:00,',
+      'Me,me@example.com,Books,Dune,not a date,09:00:00,,,00:45:00,',
+      'Me,me@example.com,Books,Dune,2024-03-14,09:00:00,2024-03-14,08:00:00,,',
+    ));
+    expect(entries).toHaveLength(1);
+    expect(entries[0].end.getTime() - entries[0].start.getTime()).toBe(45 * 60 * 1000);
+    expect(skipped).toBe(2);
+  });
+
+  it('reads Clockify exports with US dates and 12-hour times', () => {
+    const { format, entries } = parseTrackerCSV([
+      'Project,Description,Tags,Start Date,Start Time,End Date,End Time,Duration (h)',
+      'Books,Dune,"focus, evening",03/14/2024,9:00 PM,03/14/2024,10:30 PM,1.5',
+    ].join('\n'));
+    expect(format).toBe('clockify');
+    expect(entries[0]).toMatchObject({
+      activityId: expect.stringMatching(/^clockify-/),
+      tags: ['focus', 'evening'],
+      start: new Date(2024, 2, 14, 21, 0, 0),
+      end: new Date(2024, 2, 14, 22, 30, 0),
+    });
+  });
+
+  it('rejects files that are not tracker exports', () => {
+    expect(() => parseTrackerCSV('a,b\n1,2')).toThrow(TrackerImportError);
+    expect(() => parseTrackerCSV('')).toThrow(TrackerImportError);
+  });
+});
+
+describe('mapping entries', () => {
+  const mappings: ImportMapping[] = [
+    { id: 'm1', source: 'project', value: 'books', categoryType: 'good' },
+    { id: 'm2', source: 'tag', value: 'Focus', templateId: 'reading' },
+  ];
+  const templates = [{ id: 'reading', name: 'Reading', categoryType: 'selfcare' }];
+
+  it('prefers a tag mapping over a project mapping', () => {
+    const [entry] = parseTrackerCSV(toggl(READING)).entries;
+    expect(findMapping(entry, mappings)?.id).toBe('m2');
+    expect(findMapping({ ...entry, tags: [] }, mappings)?.id).toBe('m1');
+  });
+
+  it('logs under the template and keeps the description as a note', () => {
+    const [entry] = parseTrackerCSV(toggl(READING)).entries;
+    expect(entryToActivity(entry, mappings, templates)).toMatchObject({
+      id: entry.activityId,
+      name: 'Reading',
+      templateId: 'reading',
+      categoryType: 'selfcare',
+      notes: 'Dune',
+      tags: ['focus'],
+      cost: 1,
+    });
+  });
+
+  it('skips entries without a mapping', () => {
+    const [entry] = parseTrackerCSV(toggl(WORK)).entries;
+    expect(entryToActivity(entry, mappings, templates)).toBeNull();
+  });
+});
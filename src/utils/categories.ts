@@ -0,0 +1,13 @@
+import { Category, CategoryType } from '../types';
+
+/** Categories in display order. Archived ones are left out unless asked for. */
+export function orderedCategories(categories: Record<CategoryType, Category>, includeArchived = false): Category[] {
+  return Object.values(categories)
+    .filter((c) => includeArchived || !c.archived)
+    .sort((a, b) => a.order - b.order);
+}
+
+/** The category new templates and activities fall back to. */
+export function defaultCategoryId(categories: Record<CategoryType, Category>): CategoryType {
+  return orderedCategories(categories)[0]?.id ?? orderedCategories(categories, true)[0]?.id ?? 'good';
+}
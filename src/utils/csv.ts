@@ -0,0 +1,131 @@
+import { Activity, Category, CategoryType, UserSettings } from '../types';
+import { durationHoursAcrossMidnight, getDayWindowForDate, overlapsDayWindow, round2 } from './time';
+import { computeCategoryTotals } from './totals';
+import { orderedCategories } from './categories';
+
+function escapeCell(value: string | number): string {
+  const s = String(value);
+  // Quote anything that would otherwise break the row apart
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCSV(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses RFC 4180 CSV (quoted fields, doubled quotes, embedded newlines).
+ * Blank lines are dropped and a leading byte-order mark is ignored.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (inQuotes) {
+      if (c === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+function two(n: number) { return n < 10 ? `0${n}` : `${n}`; }
+
+/** "2025-03-14" in local time. */
+export function formatLocalDate(d: Date): string {
+  return `${d.getFullYear()}-${two(d.getMonth() + 1)}-${two(d.getDate())}`;
+}
+
+/** "2025-03-14 07:30" in local time, which spreadsheets read as a date-time. */
+export function formatLocalDateTime(d: Date): string {
+  return `${formatLocalDate(d)} ${two(d.getHours())}:${two(d.getMinutes())}`;
+}
+
+/** One row per activity, oldest first. */
+export function activitiesToCSV(activities: Activity[], categories: Record<CategoryType, Category>): string {
+  const header = ['Name', 'Category', 'Category Type', 'Category Color', 'Start', 'End', 'Duration (h)', 'Cost ($)', 'Tags', 'Notes', 'Logged In Zone'];
+  const rows = [...activities]
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    .map((a) => [
+      a.name,
+      categories[a.categoryType]?.name ?? a.categoryType,
+      a.categoryType,
+      categories[a.categoryType]?.color ?? '',
+      formatLocalDateTime(new Date(a.startTime)),
+      formatLocalDateTime(new Date(a.endTime)),
+      round2(durationHoursAcrossMidnight(a.startTime, a.endTime)).toFixed(2),
+      a.cost.toFixed(2),
+      (a.tags ?? []).join(', '),
+      a.notes ?? '',
+      a.timeZone ?? '',
+    ]);
+  return toCSV([header, ...rows]);
+}
+
+/**
+ * One row per day from `from` to `to` (inclusive), totalled over the same
+ * bedtime-to-bedtime window and with the same math as HomeScreen's Goals.
+ */
+export function dailyTotalsToCSV(
+  activities: Activity[],
+  categories: Record<CategoryType, Category>,
+  settings: UserSettings,
+  from: Date,
+  to: Date,
+): string {
+  // Archived categories are included too; they may hold historical time
+  const columns = orderedCategories(categories, true);
+  const header = [
+    'Date',
+    'Day Start',
+    'Day End',
+    ...columns.map((c) => `${c.name} ($)`),
+    'Total ($)',
+  ];
+  const rows: (string | number)[][] = [];
+  const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const last = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  while (cursor <= last) {
+    const window = getDayWindowForDate(cursor, settings);
+    const inDay = activities.filter((a) => overlapsDayWindow(a.startTime, a.endTime, window.start, window.end));
+    const totals = computeCategoryTotals(inDay);
+    const total = Object.values(totals).reduce((sum, n) => sum + n, 0);
+    rows.push([
+      formatLocalDate(cursor),
+      formatLocalDateTime(window.start),
+      formatLocalDateTime(window.end),
+      ...columns.map((c) => (totals[c.id] ?? 0).toFixed(2)),
+      total.toFixed(2),
+    ]);
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return toCSV([header, ...rows]);
+}
@@ -0,0 +1,26 @@
+import { File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Writes `content` to a cache file and opens the system share sheet for it,
+ * so the user can save it to Files, email it, etc.
+ */
+export async function shareTextFile(filename: string, content: string, mimeType: string): Promise<void> {
+  const file = new File(Paths.cache, filename);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(content);
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: filename });
+}
+
+/**
+ * Lets the user pick a single document and returns its text, or null if they
+ * cancelled the picker.
+ */
+export async function pickTextFile(mimeTypes: string[] = ['*/*']): Promise<{ name: string; text: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled || !result.assets[0]) return null;
+  const asset = result.assets[0];
+  return { name: asset.name, text: await new File(asset.uri).text() };
+}
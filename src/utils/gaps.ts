@@ -0,0 +1,53 @@
+import { Activity } from '../types';
+import { hoursBetween } from './time';
+
+export interface TimeGap {
+  start: Date;
+  end: Date;
+  hours: number;
+}
+
+// Union of the activities' time ranges, clipped to [from, to) and sorted
+function coveredRanges(activities: Pick<Activity, 'startTime' | 'endTime'>[], from: Date, to: Date): { start: number; end: number }[] {
+  const ranges = activities
+    .map((a) => ({
+      start: Math.max(new Date(a.startTime).getTime(), from.getTime()),
+      end: Math.min(new Date(a.endTime).getTime(), to.getTime()),
+    }))
+    .filter((r) => r.end > r.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: { start: number; end: number }[] = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= last.end) last.end = Math.max(last.end, r.end);
+    else merged.push({ ...r });
+  }
+  return merged;
+}
+
+/**
+ * Stretches of [from, to) that no activity covers. Gaps shorter than
+ * `minMinutes` are left out so rounding in logged times doesn't show up.
+ */
+export function findGaps(activities: Pick<Activity, 'startTime' | 'endTime'>[], from: Date, to: Date, minMinutes = 5): TimeGap[] {
+  const gaps: TimeGap[] = [];
+  let cursor = from.getTime();
+  for (const r of [...coveredRanges(activities, from, to), { start: to.getTime(), end: to.getTime() }]) {
+    if (r.start - cursor >= minMinutes * 60 * 1000) {
+      const start = new Date(cursor);
+      const end = new Date(r.start);
+      gaps.push({ start, end, hours: hoursBetween(start, end) });
+    }
+    cursor = Math.max(cursor, r.end);
+  }
+  return gaps;
+}
+
+/** Fraction (0-1) of [from, to) covered by at least one activity. Overlaps count once. */
+export function computeCoverage(activities: Pick<Activity, 'startTime' | 'endTime'>[], from: Date, to: Date): number {
+  const total = to.getTime() - from.getTime();
+  if (total <= 0) return 0;
+  const covered = coveredRanges(activities, from, to).reduce((sum, r) => sum + (r.end - r.start), 0);
+  return covered / total;
+}
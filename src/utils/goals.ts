@@ -0,0 +1,170 @@
+import { Activity, ActivityTemplate, Category, CategoryPolarity, CategoryType, GoalPeriod, UserSettings } from '../types';
+import { getDayWindowForDate, overlapsDayWindow } from './time';
+import { computeCategoryTotals, computeTemplateTotals } from './totals';
+import { getWeekDates, getWeekRange } from './week';
+
+export const GOAL_PERIODS: GoalPeriod[] = ['daily', 'weekly', 'monthly'];
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  daily: 'Today',
+  weekly: 'This week',
+  monthly: 'This month',
+};
+
+export const GOAL_PERIOD_SUFFIXES: Record<GoalPeriod, string> = {
+  daily: '/day',
+  weekly: '/week',
+  monthly: '/month',
+};
+
+// Share of a cap that can be used before it's flagged
+const CAP_WARNING_AT = 0.75;
+
+/**
+ * The stretch a goal is counted over, up to and including `day`: that day's
+ * window, the week so far (honoring weekEndsOn) or the month so far.
+ */
+export function getGoalRange(period: GoalPeriod, day: Date, settings: UserSettings): { start: Date; end: Date } {
+  const window = getDayWindowForDate(day, settings);
+  switch (period) {
+    case 'daily':
+      return window;
+    case 'weekly':
+      return { start: getWeekRange(getWeekDates(day, settings.weekEndsOn), settings).start, end: window.end };
+    case 'monthly':
+      return { start: getDayWindowForDate(new Date(day.getFullYear(), day.getMonth(), 1), settings).start, end: window.end };
+  }
+}
+
+/** A day in the period before the one containing `day`, for stepping back through history. */
+export function getPreviousPeriodDay(period: GoalPeriod, day: Date, settings: UserSettings): Date {
+  switch (period) {
+    case 'daily':
+      return new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1);
+    case 'weekly': {
+      const first = getWeekDates(day, settings.weekEndsOn)[0];
+      return new Date(first.getFullYear(), first.getMonth(), first.getDate() - 1);
+    }
+    case 'monthly':
+      return new Date(day.getFullYear(), day.getMonth(), 0);
+  }
+}
+
+/** Earliest start among the given periods, for loading everything in one go. */
+export function getGoalsStart(periods: GoalPeriod[], day: Date, settings: UserSettings): Date {
+  const starts = [...new Set<GoalPeriod>(['daily', ...periods])].map((p) => getGoalRange(p, day, settings).start.getTime());
+  return new Date(Math.min(...starts));
+}
+
+/** Periods used by category goals and template budgets, so callers know how far back to load. */
+export function usedGoalPeriods(categories: Category[], templates: ActivityTemplate[]): GoalPeriod[] {
+  return [...categories.map((c) => c.goalPeriod), ...templates.flatMap((t) => (t.budget ? [t.budget.period] : []))];
+}
+
+/** Each category's total over its own goal period ending on `day`. */
+export function computeGoalTotals(
+  activities: Activity[],
+  categories: Category[],
+  day: Date,
+  settings: UserSettings,
+): Record<CategoryType, number> {
+  const byPeriod = new Map<GoalPeriod, Record<CategoryType, number>>();
+  const result: Record<CategoryType, number> = {};
+  for (const category of categories) {
+    let totals = byPeriod.get(category.goalPeriod);
+    if (!totals) {
+      const range = getGoalRange(category.goalPeriod, day, settings);
+      totals = computeCategoryTotals(activities.filter((a) => overlapsDayWindow(a.startTime, a.endTime, range.start, range.end)));
+      byPeriod.set(category.goalPeriod, totals);
+    }
+    result[category.id] = totals[category.id] ?? 0;
+  }
+  return result;
+}
+
+/** Each budgeted template's total over its budget period ending on `day`. */
+export function computeBudgetTotals(
+  activities: Activity[],
+  templates: ActivityTemplate[],
+  day: Date,
+  settings: UserSettings,
+): Record<string, number> {
+  const byPeriod = new Map<GoalPeriod, Record<string, number>>();
+  const result: Record<string, number> = {};
+  for (const template of templates) {
+    if (!template.budget) continue;
+    let totals = byPeriod.get(template.budget.period);
+    if (!totals) {
+      const range = getGoalRange(template.budget.period, day, settings);
+      totals = computeTemplateTotals(activities.filter((a) => overlapsDayWindow(a.startTime, a.endTime, range.start, range.end)));
+      byPeriod.set(template.budget.period, totals);
+    }
+    result[template.id] = totals[template.id] ?? 0;
+  }
+  return result;
+}
+
+/**
+ * The last `count` periods up to `day`, oldest first. Past ones are whole
+ * periods; the last one is the period so far.
+ */
+export function getPeriodRanges(period: GoalPeriod, day: Date, settings: UserSettings, count: number): { start: Date; end: Date }[] {
+  const ranges: { start: Date; end: Date }[] = [];
+  let cursor = day;
+  for (let i = 0; i < count; i++) {
+    ranges.unshift(getGoalRange(period, cursor, settings));
+    cursor = getPreviousPeriodDay(period, cursor, settings);
+  }
+  return ranges;
+}
+
+export interface BudgetPeriod {
+  start: Date;
+  end: Date;
+  total: number;
+  progress: GoalProgress;
+}
+
+/** How a template did against its budget over the last `count` periods, oldest first. */
+export function computeBudgetHistory(
+  activities: Activity[],
+  template: ActivityTemplate,
+  day: Date,
+  settings: UserSettings,
+  count: number,
+): BudgetPeriod[] {
+  const budget = template.budget;
+  if (!budget) return [];
+  const own = activities.filter((a) => a.templateId === template.id);
+  return getPeriodRanges(budget.period, day, settings, count).map(({ start, end }) => {
+    const total = own
+      .filter((a) => overlapsDayWindow(a.startTime, a.endTime, start, end))
+      .reduce((sum, a) => sum + a.cost, 0);
+    return { start, end, total, progress: goalProgress(budget.polarity, total, budget.amount) };
+  });
+}
+
+/** The goal spread evenly over `days` days, e.g. a monthly goal's share of one week. */
+export function scaleGoal(category: Category, days: number): number {
+  switch (category.goalPeriod) {
+    case 'daily':
+      return category.goal * days;
+    case 'weekly':
+      return (category.goal * days) / 7;
+    case 'monthly':
+      return (category.goal * days * 12) / 365;
+  }
+}
+
+export interface GoalProgress {
+  fraction: number; // 0-1, how full the bar is
+  // Targets go 'under' → 'met'; caps go 'under' → 'near' → 'over'
+  state: 'under' | 'met' | 'near' | 'over';
+}
+
+export function goalProgress(polarity: CategoryPolarity, current: number, goal: number): GoalProgress {
+  const fraction = goal > 0 ? Math.min(current / goal, 1) : current > 0 ? 1 : 0;
+  if (polarity === 'more') return { fraction, state: current >= goal ? 'met' : 'under' };
+  if (current > goal) return { fraction, state: 'over' };
+  return { fraction, state: goal > 0 && current / goal >= CAP_WARNING_AT ? 'near' : 'under' };
+}
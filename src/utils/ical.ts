@@ -0,0 +1,185 @@
+import { Activity, ActivityTemplate, Category, CategoryType, CalendarImportRule } from '../types';
+import { fromWallClockIn } from './time';
+
+// Minimal RFC 5545 support: enough to round-trip our own exports and to read
+// the VEVENTs that Google Calendar, Outlook and Apple Calendar produce.
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  start: Date;
+  end: Date;
+  recurrenceId?: string; // set on an edited occurrence of a repeating event, which shares its UID
+  repeats: boolean; // has an RRULE; only the first occurrence is imported
+  timeZone?: string; // the TZID its start was given in, when this device knows the zone
+  unknownZone?: string; // a TZID this device doesn't know; the times were read as local instead
+}
+
+const EXPORT_UID_SUFFIX = '@16dollars';
+
+function two(n: number) { return n < 10 ? `0${n}` : `${n}`; }
+
+function formatUtc(d: Date): string {
+  return `${d.getUTCFullYear()}${two(d.getUTCMonth() + 1)}${two(d.getUTCDate())}T${two(d.getUTCHours())}${two(d.getUTCMinutes())}${two(d.getUTCSeconds())}Z`;
+}
+
+function escapeText(s: string): string {
+  return s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(s: string): string {
+  return s.replace(/\\n/gi, '\n').replace(/\\([\\;,])/g, '$1');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines, which
+// spend one on their leading space. A character is never split across two.
+function fold(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+export function activitiesToICS(activities: Activity[], categories: Record<CategoryType, Category>): string {
+  const stamp = formatUtc(new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//16dollars//Time Log//EN', 'CALSCALE:GREGORIAN'];
+  for (const a of activities) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${a.id}${EXPORT_UID_SUFFIX}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(new Date(a.startTime))}`,
+      `DTEND:${formatUtc(new Date(a.endTime))}`,
+      `SUMMARY:${escapeText(a.name)}`,
+      `CATEGORIES:${escapeText(categories[a.categoryType]?.name ?? a.categoryType)}`,
+      `DESCRIPTION:${escapeText([`Cost: $${a.cost.toFixed(2)}`, a.tags?.map((t) => `#${t}`).join(' '), a.notes].filter(Boolean).join('\n'))}`,
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+interface IcsDate {
+  date: Date;
+  timeZone?: string;
+  unknownZone?: string;
+}
+
+/**
+ * Parses DTSTART/DTEND values. UTC ("...Z") is exact, and so is a TZID this
+ * device knows; an unknown TZID or no zone at all is read as device-local
+ * time. Returns null for all-day (date-only) values, which don't map to a
+ * timed activity.
+ */
+function parseIcsDate(value: string, params: string): IcsDate | null {
+  if (/VALUE=DATE(;|$)/i.test(params) || /^\d{8}$/.test(value)) return null;
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, z] = m;
+  if (z) return { date: new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)) };
+  const local = new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  const tzid = params.match(/(?:^|;)TZID=("?)([^";]+)\1/i)?.[2];
+  if (!tzid) return { date: local };
+  const zoned = fromWallClockIn(+y, +mo - 1, +d, +h, +mi, +s, tzid);
+  return zoned ? { date: zoned, timeZone: tzid } : { date: local, unknownZone: tzid };
+}
+
+// e.g. PT1H30M, P1DT2H
+function parseDurationMs(value: string): number | null {
+  const m = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, w, d, h, mi, s] = m.map((v) => (v ? parseInt(v, 10) : 0));
+  return ((((w * 7 + d) * 24 + h) * 60 + mi) * 60 + s) * 1000;
+}
+
+/**
+ * Extracts timed VEVENTs. Recurring events contribute only their first
+ * occurrence, plus any occurrences edited on their own (RECURRENCE-ID);
+ * all-day events and events without an end are skipped.
+ */
+export function parseICS(text: string): IcsEvent[] {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: Record<string, { value: string; params: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current) {
+        const parsedStart = current.DTSTART ? parseIcsDate(current.DTSTART.value, current.DTSTART.params) : null;
+        const parsedEnd = current.DTEND ? parseIcsDate(current.DTEND.value, current.DTEND.params) : null;
+        const start = parsedStart?.date;
+        let end = parsedEnd?.date;
+        if (start && !end && current.DURATION) {
+          const ms = parseDurationMs(current.DURATION.value);
+          if (ms !== null) end = new Date(start.getTime() + ms);
+        }
+        if (start && end && end > start) {
+          events.push({
+            uid: current.UID?.value ?? `${start.getTime()}-${current.SUMMARY?.value ?? ''}`,
+            title: unescapeText(current.SUMMARY?.value ?? 'Untitled'),
+            start,
+            end,
+            recurrenceId: current['RECURRENCE-ID']?.value,
+            repeats: !!current.RRULE,
+            timeZone: parsedStart?.timeZone,
+            unknownZone: parsedStart?.unknownZone ?? parsedEnd?.unknownZone,
+          });
+        }
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(';');
+    current[name.toUpperCase()] = { value: line.slice(colon + 1), params: params.join(';') };
+  }
+
+  return events;
+}
+
+/**
+ * Activity id for an imported event. Events we exported ourselves get their
+ * original id back, so re-importing an export doesn't create duplicates.
+ */
+export function activityIdForEvent(event: IcsEvent): string {
+  if (event.uid.endsWith(EXPORT_UID_SUFFIX)) return event.uid.slice(0, -EXPORT_UID_SUFFIX.length);
+  return event.recurrenceId ? `ics-${event.uid}-${event.recurrenceId}` : `ics-${event.uid}`;
+}
+
+/**
+ * Picks a template for an event title: the first rule whose text appears in
+ * the title (case-insensitive), else a template with exactly that name.
+ */
+export function matchTemplate(title: string, rules: CalendarImportRule[], templates: ActivityTemplate[]): ActivityTemplate | undefined {
+  const lower = title.toLowerCase();
+  const rule = rules.find((r) => r.match.trim() && lower.includes(r.match.trim().toLowerCase()));
+  if (rule) {
+    const template = templates.find((t) => t.id === rule.templateId);
+    if (template) return template;
+  }
+  return templates.find((t) => t.name.toLowerCase() === lower.trim());
+}
@@ -0,0 +1,242 @@
+import { Activity, MultitaskLink } from '../types';
+import { computeCost, round2 } from './time';
+
+export type OverlapResolution =
+  | { kind: 'trimExisting' } // existing entries give way to the new one
+  | { kind: 'trimNew' } // the new one gives way to existing entries
+  | { kind: 'split' } // each side keeps half of the shared time
+  | { kind: 'multitask'; share: number }; // both keep it; `share` of the shared cost goes to the new one
+
+export interface OverlapChanges {
+  added: Activity[]; // extra pieces created by cutting an activity in two
+  updated: Activity[]; // existing activities with new times or cost
+  removed: Activity[]; // existing activities trimmed away entirely
+}
+
+interface Interval { start: number; end: number }
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function interval(a: Activity): Interval {
+  return { start: new Date(a.startTime).getTime(), end: new Date(a.endTime).getTime() };
+}
+
+function sharedInterval(a: Activity, b: Activity): Interval | null {
+  const x = interval(a);
+  const y = interval(b);
+  const start = Math.max(x.start, y.start);
+  const end = Math.min(x.end, y.end);
+  return start < end ? { start, end } : null;
+}
+
+/** True when the two were marked as deliberate multitasking. */
+export function isIntentionalOverlap(a: Activity, b: Activity): boolean {
+  return !!a.multitask?.some((m) => m.activityId === b.id) || !!b.multitask?.some((m) => m.activityId === a.id);
+}
+
+/** Activities in `others` that share time with `activity`, not counting deliberate multitasking. */
+export function findOverlaps(activity: Activity, others: Activity[]): Activity[] {
+  return others.filter((o) => o.id !== activity.id && sharedInterval(activity, o) && !isIntentionalOverlap(activity, o));
+}
+
+/** Ids of every activity that overlaps another one in the list. */
+export function findOverlappingIds(activities: Activity[]): Set<string> {
+  const ids = new Set<string>();
+  const sorted = [...activities].sort((a, b) => interval(a).start - interval(b).start);
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length && interval(sorted[j]).start < interval(sorted[i]).end; j++) {
+      if (!isIntentionalOverlap(sorted[i], sorted[j])) {
+        ids.add(sorted[i].id);
+        ids.add(sorted[j].id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Cuts `cut` out of `activity`. The first remaining piece keeps the id and
+ * its multitask links; a second piece (when the cut falls in the middle) gets
+ * a fresh id and none, since partners only know the original. Costs are
+ * plain durations here and settled by `settleMultitask` afterwards.
+ */
+function subtract(activity: Activity, cut: Interval): Activity[] {
+  const { start, end } = interval(activity);
+  const ranges = [
+    { start, end: Math.min(end, cut.start) },
+    { start: Math.max(start, cut.end), end },
+  ].filter((r) => r.end > r.start);
+  return ranges.map((r, i) => {
+    const startTime = new Date(r.start).toISOString();
+    const endTime = new Date(r.end).toISOString();
+    const piece: Activity = {
+      ...activity,
+      id: i === 0 ? activity.id : `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      startTime,
+      endTime,
+      cost: computeCost(startTime, endTime),
+    };
+    if (i > 0) delete piece.multitask;
+    return piece;
+  });
+}
+
+function withLinks(activity: Activity, links: MultitaskLink[]): Activity {
+  const { multitask: _old, ...rest } = activity;
+  return links.length > 0 ? { ...rest, multitask: links } : rest;
+}
+
+/**
+ * An activity's cost under its multitask links: the full duration, less the
+ * part of each shared stretch that its partner is charged for.
+ */
+export function multitaskCost(activity: Activity, partners: Map<string, Activity>): number {
+  const { start, end } = interval(activity);
+  let hours = (end - start) / HOUR_MS;
+  for (const link of activity.multitask ?? []) {
+    const partner = partners.get(link.activityId);
+    const shared = partner && sharedInterval(activity, partner);
+    if (shared) hours -= ((shared.end - shared.start) / HOUR_MS) * (1 - link.share);
+  }
+  return round2(hours);
+}
+
+/**
+ * Brings multitask links back in line after `changed` were saved and the
+ * `removedIds` deleted. Links to a partner that's gone, or no longer shares
+ * any time, are dropped from both sides, and costs are recomputed from the
+ * stored shares. `others` is everything else loaded around them. Returns the
+ * settled form of every changed activity plus any partner that moved.
+ */
+export function settleMultitask(changed: Activity[], removedIds: string[], others: Activity[]): Activity[] {
+  const removed = new Set(removedIds);
+  const pool = new Map<string, Activity>();
+  for (const o of others) if (!removed.has(o.id)) pool.set(o.id, o);
+  for (const c of changed) pool.set(c.id, c);
+
+  const touched = new Set([...changed.map((c) => c.id), ...removedIds]);
+  const affected = [...pool.values()].filter((a) => touched.has(a.id) || a.multitask?.some((m) => touched.has(m.activityId)));
+
+  const settled = new Map<string, Activity>();
+  for (const a of affected) {
+    const links = (a.multitask ?? []).filter((m) => {
+      const partner = pool.get(m.activityId);
+      return !!partner && !!sharedInterval(a, partner) && !!partner.multitask?.some((x) => x.activityId === a.id);
+    });
+    settled.set(a.id, withLinks(a, links));
+  }
+  const lookup = new Map([...pool, ...settled]);
+  // Anything that had links is repriced, including ones that just lost their last
+  for (const [id, a] of settled) {
+    if (pool.get(id)!.multitask) settled.set(id, { ...a, cost: multitaskCost(a, lookup) });
+  }
+
+  return [...settled.values()].filter((a) => {
+    if (changed.some((c) => c.id === a.id)) return true;
+    const before = pool.get(a.id)!;
+    return before.cost !== a.cost || (before.multitask?.length ?? 0) !== (a.multitask?.length ?? 0);
+  });
+}
+
+/**
+ * `partner` once `removed` is deleted: the link is dropped and the part of
+ * the shared time it wasn't charged for is charged to it again.
+ */
+export function releaseMultitaskPartner(partner: Activity, removed: Activity): Activity {
+  const link = partner.multitask?.find((m) => m.activityId === removed.id);
+  if (!link) return partner;
+  const shared = sharedInterval(partner, removed);
+  const restored = shared ? ((shared.end - shared.start) / HOUR_MS) * (1 - link.share) : 0;
+  return withLinks({ ...partner, cost: round2(partner.cost + restored) }, partner.multitask!.filter((m) => m !== link));
+}
+
+/** Resolves a single pair. Returns the pieces left of each side. */
+function resolvePair(next: Activity, existing: Activity, resolution: OverlapResolution): [Activity[], Activity[]] {
+  const shared = sharedInterval(next, existing)!;
+  switch (resolution.kind) {
+    case 'trimExisting':
+      return [[next], subtract(existing, shared)];
+    case 'trimNew':
+      return [subtract(next, shared), [existing]];
+    case 'split': {
+      // The one that started first keeps the first half
+      const mid = shared.start + (shared.end - shared.start) / 2;
+      const nextFirst = interval(next).start <= interval(existing).start;
+      return nextFirst
+        ? [subtract(next, { start: mid, end: shared.end }), subtract(existing, { start: shared.start, end: mid })]
+        : [subtract(next, { start: shared.start, end: mid }), subtract(existing, { start: mid, end: shared.end })];
+    }
+    case 'multitask': {
+      const hours = (shared.end - shared.start) / HOUR_MS;
+      const share = Math.min(1, Math.max(0, resolution.share));
+      return [
+        [{ ...next, cost: round2(next.cost - hours * (1 - share)), multitask: [...(next.multitask ?? []), { activityId: existing.id, share }] }],
+        [{ ...existing, cost: round2(existing.cost - hours * share), multitask: [...(existing.multitask ?? []), { activityId: next.id, share: 1 - share }] }],
+      ];
+    }
+  }
+}
+
+/**
+ * Applies `resolution` between a new (or edited) activity and the existing
+ * ones it overlaps. Returns what's left of the new activity (null if it was
+ * trimmed away entirely) plus the changes to write alongside it, including
+ * multitask partners of anything trimmed. `others` is everything loaded.
+ */
+export function resolveOverlaps(
+  activity: Activity,
+  conflicts: Activity[],
+  resolution: OverlapResolution,
+  others: Activity[] = [],
+): { activity: Activity | null; changes: OverlapChanges } {
+  let pieces = [activity];
+  const changes: OverlapChanges = { added: [], updated: [], removed: [] };
+
+  for (const conflict of conflicts) {
+    let existingPieces = [conflict];
+    // Cutting can leave more pieces on either side, so keep going until no
+    // unresolved pair is left
+    let pair = findPair(pieces, existingPieces);
+    while (pair) {
+      const [p, e] = pair;
+      const [nextPieces, conflictPieces] = resolvePair(p, e, resolution);
+      pieces = pieces.flatMap((x) => (x === p ? nextPieces : [x]));
+      existingPieces = existingPieces.flatMap((x) => (x === e ? conflictPieces : [x]));
+      pair = findPair(pieces, existingPieces);
+    }
+
+    const kept = existingPieces.find((x) => x.id === conflict.id);
+    if (!kept) changes.removed.push(conflict);
+    else if (kept !== conflict) changes.updated.push(kept);
+    changes.added.push(...existingPieces.filter((x) => x.id !== conflict.id));
+  }
+
+  const main = pieces.find((x) => x.id === activity.id) ?? null;
+  changes.added.push(...pieces.filter((x) => x.id !== activity.id));
+
+  // Settled even when the activity was trimmed away, since partners of removed conflicts still need releasing
+  const settled = new Map(settleMultitask(
+    [...(main ? [main] : []), ...changes.updated, ...changes.added],
+    [...changes.removed.map((r) => r.id), ...(main ? [] : [activity.id])],
+    others,
+  ).map((a) => [a.id, a]));
+  const pick = (a: Activity) => settled.get(a.id) ?? a;
+  const known = new Set([activity.id, ...changes.updated.map((a) => a.id), ...changes.added.map((a) => a.id)]);
+  return {
+    activity: main && pick(main),
+    changes: {
+      added: changes.added.map(pick),
+      updated: [...changes.updated.map(pick), ...[...settled.values()].filter((a) => !known.has(a.id))],
+      removed: changes.removed,
+    },
+  };
+}
+
+function findPair(a: Activity[], b: Activity[]): [Activity, Activity] | null {
+  for (const x of a) {
+    for (const y of b) {
+      if (sharedInterval(x, y) && !isIntentionalOverlap(x, y)) return [x, y];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,137 @@
+import { Activity, UserSettings } from '../types';
+import { getBedtimeForDate, getCurrentSleepBlock, getSleepBlocks, getWakeForDate, hoursBetween, round2 } from './time';
+import { getWeekDates } from './week';
+
+// How many nights the ledger carries debt over; anything older is forgiven
+export const SLEEP_DEBT_DAYS = 56;
+
+/** Logged sleep: anything from the Sleep template, or named "Sleep". */
+export function isSleepActivity(activity: Pick<Activity, 'name' | 'templateId'>): boolean {
+  return activity.templateId === 'sleep' || activity.name.trim().toLowerCase() === 'sleep';
+}
+
+export interface SleepNight {
+  date: Date; // the calendar date this night wakes up on
+  scheduled: number; // hours of planned sleep, naps included
+  slept: number; // hours of logged sleep
+  tracked: boolean; // false when no sleep was logged, so the night can't be judged
+  debt: number; // scheduled - slept; negative when more was slept than planned
+  balance: number; // debt carried to the end of this night, never below 0
+}
+
+// The schedule as planned, undoing bedtimes moved by "I'm going to bed now"
+// so staying up late still shows up as debt
+function withPlannedBedtimes(settings: UserSettings): UserSettings {
+  if (!settings.sleepOverrides) return settings;
+  return {
+    ...settings,
+    sleepOverrides: Object.fromEntries(Object.entries(settings.sleepOverrides).map(([date, times]) => (
+      [date, times.plannedBedtime ? { ...times, bedtime: times.plannedBedtime } : times]
+    ))),
+  };
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Midway through a date's waking day; a night runs from one of these to the next
+// so a late bedtime or a lie-in still counts against the right night
+function middayOf(date: Date, settings: UserSettings): Date {
+  const wake = getWakeForDate(date, settings);
+  const bed = getBedtimeForDate(date, settings);
+  return new Date((wake.getTime() + bed.getTime()) / 2);
+}
+
+function overlapHours(start: Date, end: Date, from: Date, to: Date): number {
+  const s = start > from ? start : from;
+  const e = end < to ? end : to;
+  return Math.max(0, hoursBetween(s, e));
+}
+
+/** Stretch the ledger for the `days` nights up to `day` needs loaded. */
+export function getSleepDebtRange(day: Date, settings: UserSettings, days = SLEEP_DEBT_DAYS): { start: Date; end: Date } {
+  settings = withPlannedBedtimes(settings);
+  return { start: middayOf(addDays(day, -days), settings), end: middayOf(day, settings) };
+}
+
+/**
+ * Planned against logged sleep for the `days` nights up to the one waking on
+ * `day`, oldest first. Debt carries from night to night; sleeping more than
+ * planned pays it back but can't bank any. Nothing counts past `now`.
+ */
+export function computeSleepLedger(
+  activities: Activity[],
+  day: Date,
+  settings: UserSettings,
+  now: Date,
+  days = SLEEP_DEBT_DAYS,
+): SleepNight[] {
+  settings = withPlannedBedtimes(settings);
+  const nights: SleepNight[] = [];
+  let balance = 0;
+  for (let i = days - 1; i >= 0; i--) {
+    const date = addDays(day, -i);
+    const from = middayOf(addDays(date, -1), settings);
+    const end = middayOf(date, settings);
+    const to = end < now ? end : now;
+    if (to <= from) break;
+
+    const scheduled = getSleepBlocks(from, to, settings).reduce((sum, b) => sum + overlapHours(b.start, b.end, from, to), 0);
+    const sleeps = activities.filter((a) => isSleepActivity(a) && overlapHours(new Date(a.startTime), new Date(a.endTime), from, to) > 0);
+    const slept = sleeps.reduce((sum, a) => sum + overlapHours(new Date(a.startTime), new Date(a.endTime), from, to), 0);
+    const tracked = sleeps.length > 0;
+    const debt = tracked ? round2(scheduled - slept) : 0;
+    balance = Math.max(0, round2(balance + debt));
+    nights.push({ date, scheduled: round2(scheduled), slept: round2(slept), tracked, debt, balance });
+  }
+  return nights;
+}
+
+export interface SleepDebtWeek {
+  end: Date; // last date of the week
+  scheduled: number;
+  slept: number;
+  balance: number; // carried debt at the week's last night
+}
+
+/** The ledger grouped into weeks (honoring weekEndsOn), oldest first, for the trend. */
+export function summarizeDebtByWeek(nights: SleepNight[], settings: UserSettings): SleepDebtWeek[] {
+  const weeks = new Map<number, SleepDebtWeek>();
+  for (const night of nights) {
+    const end = getWeekDates(night.date, settings.weekEndsOn)[6];
+    const week = weeks.get(end.getTime()) ?? { end, scheduled: 0, slept: 0, balance: 0 };
+    if (night.tracked) {
+      week.scheduled = round2(week.scheduled + night.scheduled);
+      week.slept = round2(week.slept + night.slept);
+    }
+    week.balance = night.balance;
+    weeks.set(end.getTime(), week);
+  }
+  return [...weeks.values()];
+}
+
+/**
+ * Hours stayed up past tonight's planned bedtime. They come out of tomorrow's
+ * sleep, so they're shown as borrowed; sleep logged or running since then
+ * stops the borrowing.
+ */
+export function computeBorrowedDollars(
+  now: Date,
+  settings: UserSettings,
+  activities: Pick<Activity, 'name' | 'templateId' | 'startTime'>[],
+): number {
+  const block = getCurrentSleepBlock(now, withPlannedBedtimes(settings));
+  if (!block || block.nap) return 0;
+  const sleepStarts = activities
+    .filter(isSleepActivity)
+    .map((a) => new Date(a.startTime))
+    .filter((start) => start >= block.start && start <= now);
+  const until = sleepStarts.length ? new Date(Math.min(...sleepStarts.map((d) => d.getTime()))) : now;
+  return round2(Math.max(0, hoursBetween(block.start, until)));
+}
+
+/** e.g. "3.5h" or "45m" */
+export function formatDebtHours(hours: number): string {
+  return hours < 1 ? `${Math.round(hours * 60)}m` : `${round2(hours)}h`;
+}
@@ -0,0 +1,73 @@
+import { Activity, ActivityTemplate, Category, CategoryPolarity, GoalPeriod, UserSettings } from '../types';
+import { overlapsDayWindow } from './time';
+import { getPeriodRanges, goalProgress } from './goals';
+
+// How many periods back streaks look, including the current one
+export const STREAK_HISTORY: Record<GoalPeriod, number> = { daily: 35, weekly: 12, monthly: 6 };
+
+export interface StreakPeriod {
+  start: Date;
+  end: Date;
+  // 'pending' is the current period while it can still go either way;
+  // 'untracked' is anything before the first logged activity
+  state: 'kept' | 'missed' | 'pending' | 'untracked';
+}
+
+export interface Streak {
+  current: number;
+  longest: number;
+  periods: StreakPeriod[]; // oldest first, the last one is the current period
+}
+
+/** Earliest start needed to compute streaks for the given periods. */
+export function getStreaksStart(periods: GoalPeriod[], day: Date, settings: UserSettings): Date {
+  const starts = [...new Set(periods)].map((p) => getPeriodRanges(p, day, settings, STREAK_HISTORY[p])[0].start.getTime());
+  return starts.length ? new Date(Math.min(...starts)) : day;
+}
+
+/**
+ * Runs of periods in which a goal was kept: a minimum reached, or a cap not
+ * passed. Periods are the same bedtime-to-bedtime days (and weeks and months
+ * of them) the goals use. The current period only joins the streak once it's
+ * settled; until then it doesn't break it either.
+ */
+export function computeStreak(
+  activities: Activity[],
+  period: GoalPeriod,
+  polarity: CategoryPolarity,
+  target: number,
+  day: Date,
+  settings: UserSettings,
+  trackingSince: Date | null,
+): Streak {
+  const ranges = getPeriodRanges(period, day, settings, STREAK_HISTORY[period]);
+  const periods = ranges.map(({ start, end }, i): StreakPeriod => {
+    if (!trackingSince || end <= trackingSince) return { start, end, state: 'untracked' };
+    const total = activities
+      .filter((a) => overlapsDayWindow(a.startTime, a.endTime, start, end))
+      .reduce((sum, a) => sum + a.cost, 0);
+    const { state } = goalProgress(polarity, total, target);
+    const kept = polarity === 'more' ? state === 'met' : state !== 'over';
+    if (i === ranges.length - 1 && (polarity === 'more' ? !kept : kept)) return { start, end, state: 'pending' };
+    return { start, end, state: kept ? 'kept' : 'missed' };
+  });
+
+  let longest = 0;
+  let run = 0;
+  for (const p of periods) {
+    run = p.state === 'kept' ? run + 1 : p.state === 'pending' ? run : 0;
+    longest = Math.max(longest, run);
+  }
+  return { current: run, longest, periods };
+}
+
+export function computeCategoryStreak(activities: Activity[], category: Category, day: Date, settings: UserSettings, trackingSince: Date | null): Streak {
+  const own = activities.filter((a) => a.categoryType === category.id);
+  return computeStreak(own, category.goalPeriod, category.polarity, category.goal, day, settings, trackingSince);
+}
+
+export function computeBudgetStreak(activities: Activity[], template: ActivityTemplate, day: Date, settings: UserSettings, trackingSince: Date | null): Streak | null {
+  if (!template.budget) return null;
+  const own = activities.filter((a) => a.templateId === template.id);
+  return computeStreak(own, template.budget.period, template.budget.polarity, template.budget.amount, day, settings, trackingSince);
+}
@@ -0,0 +1,41 @@
+import { Activity } from '../types';
+
+/** "#Book Club " → "book club". Returns '' for input that isn't a usable tag. */
+export function normalizeTag(raw: string): string {
+  return raw.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Adds each activity's tags to a count of uses, or takes them away with
+ * `by` -1. Tags that drop to zero are removed. Changes `counts` in place.
+ */
+export function countTags(activities: Activity[], counts: Record<string, number>, by = 1): Record<string, number> {
+  for (const a of activities) {
+    for (const tag of a.tags ?? []) {
+      const n = (counts[tag] ?? 0) + by;
+      if (n > 0) counts[tag] = n;
+      else delete counts[tag];
+    }
+  }
+  return counts;
+}
+
+/** Counted tags, most used first. */
+export function rankTags(counts: Record<string, number>): string[] {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+/**
+ * Autocomplete for the tag editor. Prefix matches come before matches
+ * further inside the tag; tags already on the activity are left out.
+ */
+export function suggestTags(known: string[], query: string, selected: string[], limit = 6): string[] {
+  const q = normalizeTag(query);
+  const available = known.filter((t) => !selected.includes(t));
+  if (!q) return available.slice(0, limit);
+  const prefix = available.filter((t) => t.startsWith(q));
+  const inner = available.filter((t) => !t.startsWith(q) && t.includes(q));
+  return [...prefix, ...inner].slice(0, limit);
+}
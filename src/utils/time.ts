@@ -1,4 +1,4 @@
-import { UserSettings, TimeReference } from '../types';
+import { SleepTimes, UserSettings, TimeReference, Weekday } from '../types';
 
 /**
  * Validates and normalizes a time string to HH:mm format
@@ -36,9 +36,66 @@ export function toDateWithTime(base: Date, hhmm: string): Date {
   return d;
 }
 
-export function formatTime12h(date: Date): string {
-  let hours = date.getHours();
-  const minutes = date.getMinutes();
+/** The device's current IANA time zone, e.g. "America/New_York". */
+export function currentTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** A zone's city for display: "America/New_York" → "New York". */
+export function formatTimeZoneName(timeZone: string): string {
+  return (timeZone.split('/').pop() ?? timeZone).replace(/_/g, ' ');
+}
+
+// Wall-clock hours and minutes of `date` in another zone
+function wallClockIn(date: Date, timeZone: string): { hours: number; minutes: number } | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' }).formatToParts(date);
+    const hours = Number(parts.find((p) => p.type === 'hour')?.value);
+    const minutes = Number(parts.find((p) => p.type === 'minute')?.value);
+    return Number.isFinite(hours) && Number.isFinite(minutes) ? { hours: hours % 24, minutes } : null;
+  } catch {
+    return null; // unknown zone
+  }
+}
+
+// How far a zone's wall clock is ahead of UTC at `date`, in ms
+function zoneOffsetMs(date: Date, timeZone: string): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone, year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23',
+    }).formatToParts(date);
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+    return Number.isFinite(wall) ? wall - (date.getTime() - date.getMilliseconds()) : null;
+  } catch {
+    return null; // unknown zone
+  }
+}
+
+/**
+ * The moment a wall-clock time happens in `timeZone` (month 0-based), or
+ * null for a zone this device doesn't know.
+ */
+export function fromWallClockIn(year: number, month: number, day: number, hours: number, minutes: number, seconds: number, timeZone: string): Date | null {
+  const wall = Date.UTC(year, month, day, hours, minutes, seconds);
+  let guess = wall;
+  // The second pass settles times near a DST change, where the offset at the guess is off by one change
+  for (let i = 0; i < 2; i++) {
+    const offset = zoneOffsetMs(new Date(guess), timeZone);
+    if (offset === null) return null;
+    guess = wall - offset;
+  }
+  return new Date(guess);
+}
+
+/**
+ * e.g. "7:05am". With `timeZone`, shows the wall-clock time there, so an
+ * activity keeps the time it was logged at after flying somewhere else.
+ */
+export function formatTime12h(date: Date, timeZone?: string): string {
+  const zoned = timeZone && timeZone !== currentTimeZone() ? wallClockIn(date, timeZone) : null;
+  let hours = zoned ? zoned.hours : date.getHours();
+  const minutes = zoned ? zoned.minutes : date.getMinutes();
   const ampm = hours >= 12 ? 'pm' : 'am';
   hours = hours % 12;
   if (hours === 0) hours = 12;
@@ -50,74 +107,166 @@ export function parseISO(iso: string): Date {
   return new Date(iso);
 }
 
-export function isInSleepWindow(now: Date, settings: UserSettings): boolean {
-  const [bedH, bedM] = settings.bedtime.split(':').map(Number);
-  const [wakeH, wakeM] = settings.wakeTime.split(':').map(Number);
+const WEEKDAY_NAMES: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
 
-  // Current time in minutes since midnight
-  const nowMins = now.getHours() * 60 + now.getMinutes();
-  const bedMins = bedH * 60 + bedM;
-  const wakeMins = wakeH * 60 + wakeM;
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
 
-  // Case 1: Bedtime and wake are on same day (e.g., bed 10am, wake 11am - unusual but possible)
-  if (bedMins < wakeMins) {
-    return nowMins >= bedMins && nowMins < wakeMins;
-  }
+/**
+ * The same wall-clock time on the next calendar day. Across a DST change
+ * that's 23 or 25 hours later, not 24.
+ */
+export function nextDaySameTime(date: Date): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + 1);
+  return d;
+}
 
-  // Case 2: Sleep window crosses midnight (e.g., bed 11pm, wake 7am)
-  // You're sleeping if: after bedtime OR before wake time
-  return nowMins >= bedMins || nowMins < wakeMins;
+/** Local calendar date as "YYYY-MM-DD", the key sleepOverrides use. */
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
-export function getMostRecentWake(now: Date, settings: UserSettings): Date {
-  const todayWake = toDateWithTime(new Date(now), settings.wakeTime);
+/** Local midnight of a "YYYY-MM-DD" key. */
+export function fromDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
 
-  if (now >= todayWake) {
-    return todayWake;
-  }
+// Whole calendar days from one date to another, unaffected by DST
+function calendarDaysBetween(from: Date, to: Date): number {
+  const utc = (d: Date) => Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+  return Math.round((utc(to) - utc(from)) / (24 * 60 * 60 * 1000));
+}
 
-  const yesterday = new Date(now);
-  yesterday.setDate(yesterday.getDate() - 1);
-  const yesterdayWake = toDateWithTime(yesterday, settings.wakeTime);
-  return yesterdayWake;
+/** Which day of the sleep rotation (0-based) a date falls on, or null without a rotation. */
+export function getRotationDay(date: Date, settings: UserSettings): number | null {
+  const rotation = settings.sleepRotation;
+  if (!rotation) return null;
+  const length = rotation.days.length;
+  return ((calendarDaysBetween(fromDateKey(rotation.startDate), date) % length) + length) % length;
 }
 
-export function getNextBedtimeFromWake(wake: Date, settings: UserSettings): Date {
-  const sameDayBed = toDateWithTime(new Date(wake), settings.bedtime);
-  if (sameDayBed > wake) return sameDayBed;
-  const next = new Date(wake);
-  next.setDate(next.getDate() + 1);
-  return toDateWithTime(next, settings.bedtime);
+/**
+ * Sleep times for a calendar date: a one-off override if there is one, then
+ * the shift rotation, then that weekday's schedule, then the usual times.
+ */
+export function getSleepTimes(date: Date, settings: UserSettings): SleepTimes {
+  const rotationDay = getRotationDay(date, settings);
+  return settings.sleepOverrides?.[toDateKey(date)]
+    ?? (rotationDay !== null ? settings.sleepRotation!.days[rotationDay] : null)
+    ?? settings.weeklySleep?.[WEEKDAY_NAMES[date.getDay()]]
+    ?? { bedtime: settings.bedtime, wakeTime: settings.wakeTime, naps: settings.naps };
 }
 
-export function getMostRecentBedtime(now: Date, settings: UserSettings): Date {
-  const todayBed = toDateWithTime(new Date(now), settings.bedtime);
+/** The wake-up that starts a calendar date's day. */
+export function getWakeForDate(date: Date, settings: UserSettings): Date {
+  return toDateWithTime(date, getSleepTimes(date, settings).wakeTime);
+}
 
-  // If we're past today's bedtime, use it
-  if (now >= todayBed) {
-    return todayBed;
+/** The bedtime that ends a calendar date's day; the next morning when it's earlier than the wake time. */
+export function getBedtimeForDate(date: Date, settings: UserSettings): Date {
+  const wake = getWakeForDate(date, settings);
+  const bed = toDateWithTime(date, getSleepTimes(date, settings).bedtime);
+  return bed > wake ? bed : toDateWithTime(addDays(date, 1), getSleepTimes(date, settings).bedtime);
+}
+
+/**
+ * Settings with `date`'s bedtime moved to `at` through a one-off override,
+ * keeping the bedtime it replaced as plannedBedtime.
+ */
+export function withBedtimeAt(date: Date, at: Date, settings: UserSettings): UserSettings {
+  const times = getSleepTimes(date, settings);
+  const bedtime = `${at.getHours().toString().padStart(2, '0')}:${at.getMinutes().toString().padStart(2, '0')}`;
+  return {
+    ...settings,
+    sleepOverrides: {
+      ...settings.sleepOverrides,
+      [toDateKey(date)]: { ...times, bedtime, plannedBedtime: times.plannedBedtime ?? times.bedtime },
+    },
+  };
+}
+
+export interface SleepBlock {
+  start: Date;
+  end: Date;
+  nap: boolean; // false for the main sleep that ends at a date's wake time
+}
+
+// A date's naps, kept inside its waking day
+function getNapsForDate(date: Date, settings: UserSettings): SleepBlock[] {
+  const wake = getWakeForDate(date, settings);
+  const bed = getBedtimeForDate(date, settings);
+  return (getSleepTimes(date, settings).naps ?? []).map((nap) => {
+    let start = toDateWithTime(date, nap.start);
+    if (start < wake) start = nextDaySameTime(start);
+    let end = toDateWithTime(start, nap.end);
+    if (end <= start) end = nextDaySameTime(end);
+    return { start: start < wake ? wake : start, end: end > bed ? bed : end, nap: true };
+  }).filter((b) => b.end > b.start);
+}
+
+/** Every sleep block overlapping [from, to), in order: each night's main sleep plus any naps. */
+export function getSleepBlocks(from: Date, to: Date, settings: UserSettings): SleepBlock[] {
+  const blocks: SleepBlock[] = [];
+  for (let d = addDays(from, -2); d <= addDays(to, 1); d = addDays(d, 1)) {
+    blocks.push({ start: getBedtimeForDate(addDays(d, -1), settings), end: getWakeForDate(d, settings), nap: false });
+    blocks.push(...getNapsForDate(d, settings));
   }
+  return blocks
+    .filter((b) => b.end > b.start && b.start < to && b.end > from)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
 
-  // Otherwise use yesterday's bedtime
-  const yesterday = new Date(now);
-  yesterday.setDate(yesterday.getDate() - 1);
-  return toDateWithTime(yesterday, settings.bedtime);
+/** The sleep block `now` falls in, if any. */
+export function getCurrentSleepBlock(now: Date, settings: UserSettings): SleepBlock | null {
+  return getSleepBlocks(now, new Date(now.getTime() + 1), settings)[0] ?? null;
 }
 
-export function getNextBedtime(now: Date, settings: UserSettings): Date {
-  const [bedH, bedM] = settings.bedtime.split(':').map(Number);
-  const bedMins = bedH * 60 + bedM;
-  const nowMins = now.getHours() * 60 + now.getMinutes();
+export function isInSleepWindow(now: Date, settings: UserSettings): boolean {
+  return getCurrentSleepBlock(now, settings) !== null;
+}
 
-  // If bedtime is later today
-  if (nowMins < bedMins) {
-    return toDateWithTime(now, settings.bedtime);
+/** Hours in [from, to) not inside any sleep block, i.e. what that stretch costs. */
+export function awakeHoursBetween(from: Date, to: Date, settings: UserSettings): number {
+  if (to <= from) return 0;
+  const asleep = getSleepBlocks(from, to, settings).reduce((sum, b) => {
+    const start = b.start > from ? b.start : from;
+    const end = b.end < to ? b.end : to;
+    return sum + hoursBetween(start, end);
+  }, 0);
+  return hoursBetween(from, to) - asleep;
+}
+
+export function getMostRecentWake(now: Date, settings: UserSettings): Date {
+  // A wake time can't be more than a day behind, so today's or yesterday's
+  const todayWake = getWakeForDate(now, settings);
+  return now >= todayWake ? todayWake : getWakeForDate(addDays(now, -1), settings);
+}
+
+export function getNextBedtimeFromWake(wake: Date, settings: UserSettings): Date {
+  return getNextBedtime(wake, settings);
+}
+
+export function getMostRecentBedtime(now: Date, settings: UserSettings): Date {
+  // A date's bedtime can fall after midnight, so yesterday's may still be ahead
+  // of today's and the day before's may be the latest one passed
+  for (let back = 0; back < 3; back++) {
+    const bed = getBedtimeForDate(addDays(now, -back), settings);
+    if (bed <= now) return bed;
   }
+  return getBedtimeForDate(addDays(now, -3), settings);
+}
 
-  // Bedtime is tomorrow
-  const tomorrow = new Date(now);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  return toDateWithTime(tomorrow, settings.bedtime);
+export function getNextBedtime(now: Date, settings: UserSettings): Date {
+  for (let offset = -1; offset < 2; offset++) {
+    const bed = getBedtimeForDate(addDays(now, offset), settings);
+    if (bed > now) return bed;
+  }
+  return getBedtimeForDate(addDays(now, 2), settings);
 }
 
 export function getDayWindow(now: Date, settings: UserSettings) {
@@ -125,33 +274,31 @@ export function getDayWindow(now: Date, settings: UserSettings) {
   // This includes both sleep period (last night) and waking hours (today)
   const start = getMostRecentBedtime(now, settings);
   const end = getNextBedtime(now, settings);
-
-  console.log('getDayWindow:', {
-    now: now.toLocaleString(),
-    start: start.toLocaleString(),
-    end: end.toLocaleString(),
-    spanHours: hoursBetween(start, end).toFixed(1),
-  });
-
   return { start, end };
 }
 
+/**
+ * Day window for a calendar date: the bedtime-to-bedtime window that contains
+ * that date's wake time, i.e. what HomeScreen would have shown that day.
+ */
+export function getDayWindowForDate(date: Date, settings: UserSettings) {
+  return getDayWindow(getWakeForDate(date, settings), settings);
+}
+
 export function hoursBetween(start: Date, end: Date): number {
   return (end.getTime() - start.getTime()) / (1000 * 60 * 60);
 }
 
 export function computeRemainingDollars(now: Date, settings: UserSettings): number {
-  // Calculate hours until next bedtime (1 hour = 1 dollar)
+  // Awake hours until next bedtime (1 hour = 1 dollar); naps still ahead don't count
   const nextBed = getNextBedtime(now, settings);
-  const hoursUntilBed = Math.max(0, hoursBetween(now, nextBed));
-  return round2(hoursUntilBed);
+  return round2(Math.max(0, awakeHoursBetween(now, nextBed, settings)));
 }
 
 export function computeSpentDollars(now: Date, settings: UserSettings): number {
-  // Calculate hours since most recent wake time (1 hour = 1 dollar)
+  // Awake hours since most recent wake time (1 hour = 1 dollar), naps taken out
   const lastWake = getMostRecentWake(now, settings);
-  const hoursSinceWake = Math.max(0, hoursBetween(lastWake, now));
-  return round2(hoursSinceWake);
+  return round2(Math.max(0, awakeHoursBetween(lastWake, now, settings)));
 }
 
 export function round2(n: number): number {
@@ -162,15 +309,20 @@ export function durationHoursAcrossMidnight(startIso: string, endIso: string): n
   const start = parseISO(startIso);
   let end = parseISO(endIso);
   if (end < start) {
-    end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+    end = nextDaySameTime(end);
   }
   return hoursBetween(start, end);
 }
 
+/** What an activity from `startIso` to `endIso` costs: a dollar an hour, to the cent. */
+export function computeCost(startIso: string, endIso: string): number {
+  return round2(durationHoursAcrossMidnight(startIso, endIso));
+}
+
 export function overlapsDayWindow(startIso: string, endIso: string, dayStart: Date, dayEnd: Date): boolean {
   const s = parseISO(startIso);
   let e = parseISO(endIso);
-  if (e < s) e = new Date(e.getTime() + 24 * 60 * 60 * 1000);
+  if (e < s) e = nextDaySameTime(e);
   return s < dayEnd && e > dayStart;
 }
 
@@ -178,14 +330,16 @@ export function overlapsDayWindow(startIso: string, endIso: string, dayStart: Da
  * Resolves a TimeReference to an actual Date object
  */
 export function resolveTimeReference(ref: TimeReference, settings: UserSettings, baseDay: Date): Date {
+  // Uses baseDay's own schedule, so "wake time" on a Saturday is Saturday's
+  const times = getSleepTimes(baseDay, settings);
   switch (ref.type) {
     case 'bedtime':
-      return toDateWithTime(baseDay, settings.bedtime);
+      return toDateWithTime(baseDay, times.bedtime);
     case 'wakeTime':
-      return toDateWithTime(baseDay, settings.wakeTime);
+      return toDateWithTime(baseDay, times.wakeTime);
     case 'offset': {
       // Offset from wake time
-      const wakeDate = toDateWithTime(baseDay, settings.wakeTime);
+      const wakeDate = toDateWithTime(baseDay, times.wakeTime);
       return new Date(wakeDate.getTime() + ref.minutes * 60 * 1000);
     }
   }
@@ -195,6 +349,7 @@ export function resolveTimeReference(ref: TimeReference, settings: UserSettings,
  * Formats a TimeReference as a display string (e.g., "11:00pm", "7:00am", "+1h")
  */
 export function formatTimeReference(ref: TimeReference, settings: UserSettings): string {
+  // Shown with the usual times; the actual time follows each day's schedule
   const tempBase = new Date();
   switch (ref.type) {
     case 'bedtime': {
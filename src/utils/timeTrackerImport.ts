@@ -0,0 +1,200 @@
+import { Activity, ActivityTemplate, ImportMapping } from '../types';
+import { parseCSV } from './csv';
+import { computeCost, currentTimeZone } from './time';
+import { normalizeTag } from './tags';
+
+export type TrackerFormat = 'toggl' | 'clockify';
+
+export interface TrackerEntry {
+  activityId: string; // stable across re-imports of the same export
+  description: string;
+  project: string;
+  tags: string[];
+  start: Date;
+  end: Date;
+}
+
+export class TrackerImportError extends Error {}
+
+// Header names for each exporter's "detailed report" CSV. Lookups are
+// case-insensitive and the first header present wins.
+const COLUMNS: Record<TrackerFormat, Record<'description' | 'project' | 'tags' | 'startDate' | 'startTime' | 'endDate' | 'endTime' | 'duration', string[]>> = {
+  toggl: {
+    description: ['description'],
+    project: ['project'],
+    tags: ['tags'],
+    startDate: ['start date'],
+    startTime: ['start time'],
+    endDate: ['end date'],
+    endTime: ['end time'],
+    duration: ['duration'],
+  },
+  clockify: {
+    description: ['description'],
+    project: ['project'],
+    tags: ['tags'],
+    startDate: ['start date'],
+    startTime: ['start time'],
+    endDate: ['end date'],
+    endTime: ['end time'],
+    duration: ['duration (decimal)', 'duration (h)'],
+  },
+};
+
+function detectFormat(header: string[]): TrackerFormat | null {
+  const lower = header.map((h) => h.trim().toLowerCase());
+  if (lower.includes('duration (h)') || lower.includes('duration (decimal)')) return 'clockify';
+  if (lower.includes('start date') && lower.includes('duration')) return 'toggl';
+  return null;
+}
+
+/** Accepts 2024-03-14, 03/14/2024 (US, as Clockify exports by default) and 14.03.2024. */
+function parseDate(value: string): [number, number, number] | null {
+  let m = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (m) return [+m[1], +m[2], +m[3]];
+  m = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (m) return [+m[3], +m[1], +m[2]];
+  m = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (m) return [+m[3], +m[2], +m[1]];
+  return null;
+}
+
+/** Accepts 09:05, 09:05:30 and 9:05 AM / 9:05:30 PM. */
+function parseClock(value: string): [number, number, number] | null {
+  const m = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/);
+  if (!m) return null;
+  let h = +m[1];
+  if (m[4]) {
+    const pm = m[4].toLowerCase() === 'pm';
+    if (h === 12) h = pm ? 12 : 0;
+    else if (pm) h += 12;
+  }
+  return [h, +m[2], m[3] ? +m[3] : 0];
+}
+
+function parseDateTime(date: string, time: string): Date | null {
+  const d = parseDate(date.trim());
+  const t = parseClock(time);
+  if (!d || !t) return null;
+  return new Date(d[0], d[1] - 1, d[2], t[0], t[1], t[2]);
+}
+
+/** "01:30:00" or decimal hours like "1.5" → milliseconds. */
+function parseDurationMs(value: string): number | null {
+  const clock = value.trim().match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) return ((+clock[1] * 60 + +clock[2]) * 60 + (clock[3] ? +clock[3] : 0)) * 1000;
+  const hours = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(hours) ? hours * 60 * 60 * 1000 : null;
+}
+
+// Small non-cryptographic hash so ids stay short but deterministic
+function hash(s: string): string {
+  let h = 5381;
+  for (let i = 0; i < s.length; i++) h = ((h << 5) + h + s.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+}
+
+/**
+ * Parses a Toggl Track or Clockify detailed CSV export. Rows without a usable
+ * start and end (or start and duration) are skipped and counted.
+ */
+export function parseTrackerCSV(text: string): { format: TrackerFormat; entries: TrackerEntry[]; skipped: number } {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) throw new TrackerImportError('This file is empty.');
+  const format = detectFormat(header);
+  if (!format) throw new TrackerImportError("This doesn't look like a Toggl or Clockify detailed export.");
+
+  const lower = header.map((h) => h.trim().toLowerCase());
+  const col = (name: keyof typeof COLUMNS.toggl) => {
+    for (const candidate of COLUMNS[format][name]) {
+      const idx = lower.indexOf(candidate);
+      if (idx >= 0) return idx;
+    }
+    return -1;
+  };
+  const idx = {
+    description: col('description'),
+    project: col('project'),
+    tags: col('tags'),
+    startDate: col('startDate'),
+    startTime: col('startTime'),
+    endDate: col('endDate'),
+    endTime: col('endTime'),
+    duration: col('duration'),
+  };
+  if (idx.startDate < 0 || idx.startTime < 0) throw new TrackerImportError('The export has no start date/time columns.');
+
+  const entries: TrackerEntry[] = [];
+  const occurrences = new Map<string, number>();
+  let skipped = 0;
+  for (const row of rows) {
+    const cell = (i: number) => (i >= 0 ? (row[i] ?? '').trim() : '');
+    const start = parseDateTime(cell(idx.startDate), cell(idx.startTime));
+    let end = idx.endDate >= 0 && idx.endTime >= 0 ? parseDateTime(cell(idx.endDate), cell(idx.endTime)) : null;
+    if (start && !end) {
+      const ms = parseDurationMs(cell(idx.duration));
+      if (ms !== null) end = new Date(start.getTime() + ms);
+    }
+    if (!start || !end || end <= start) {
+      skipped++;
+      continue;
+    }
+
+    const description = cell(idx.description);
+    const project = cell(idx.project);
+    // Identical rows (e.g. an entry logged twice) are told apart by which copy they are,
+    // which stays the same when a later export covers more dates
+    const key = `${start.toISOString()}|${end.toISOString()}|${project}|${description}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    entries.push({
+      activityId: `${format}-${hash(occurrence > 0 ? `${key}|${occurrence}` : key)}`,
+      description,
+      project,
+      tags: cell(idx.tags).split(',').map((t) => t.trim()).filter(Boolean),
+      start,
+      end,
+    });
+  }
+  return { format, entries, skipped };
+}
+
+/**
+ * Finds the mapping for an entry. A tag mapping wins over a project mapping,
+ * since tags are usually the more specific of the two.
+ */
+export function findMapping(entry: TrackerEntry, mappings: ImportMapping[]): ImportMapping | undefined {
+  const matches = (m: ImportMapping, value: string) => m.value.toLowerCase() === value.toLowerCase()
+    && (m.templateId !== undefined || m.categoryType !== undefined);
+  for (const tag of entry.tags) {
+    const byTag = mappings.find((m) => m.source === 'tag' && matches(m, tag));
+    if (byTag) return byTag;
+  }
+  return entry.project ? mappings.find((m) => m.source === 'project' && matches(m, entry.project)) : undefined;
+}
+
+/** Builds the activity for a mapped entry, or null if it has no usable mapping. */
+export function entryToActivity(entry: TrackerEntry, mappings: ImportMapping[], templates: ActivityTemplate[]): Activity | null {
+  const mapping = findMapping(entry, mappings);
+  if (!mapping) return null;
+
+  const template = mapping.templateId ? templates.find((t) => t.id === mapping.templateId) : undefined;
+  const categoryType = template?.categoryType ?? mapping.categoryType;
+  if (!categoryType) return null;
+
+  const activity: Activity = {
+    id: entry.activityId,
+    name: template?.name ?? (entry.description || entry.project || 'Imported'),
+    categoryType,
+    startTime: entry.start.toISOString(),
+    endTime: entry.end.toISOString(),
+    cost: computeCost(entry.start.toISOString(), entry.end.toISOString()),
+    timeZone: currentTimeZone(), // exports give wall-clock times, which were read as this zone's
+  };
+  // The tracker's own tags carry over; a description the template name replaced is kept as a note
+  const tags = [...new Set(entry.tags.map(normalizeTag).filter(Boolean))];
+  if (template) activity.templateId = template.id;
+  if (tags.length > 0) activity.tags = tags;
+  if (template && entry.description) activity.notes = entry.description;
+  return activity;
+}
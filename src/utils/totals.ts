@@ -0,0 +1,31 @@
+import { Activity, CategoryType } from '../types';
+
+/**
+ * Sums activity cost per category. This is the number the Goals section on
+ * HomeScreen shows, so exports and summaries should go through it too.
+ */
+export function computeCategoryTotals(activities: Activity[]): Record<CategoryType, number> {
+  return activities.reduce((acc, activity) => {
+    acc[activity.categoryType] = (acc[activity.categoryType] ?? 0) + activity.cost;
+    return acc;
+  }, {} as Record<CategoryType, number>);
+}
+
+/** Sums activity cost per template id. Activities without a template are left out. */
+export function computeTemplateTotals(activities: Activity[]): Record<string, number> {
+  return activities.reduce((acc, activity) => {
+    if (activity.templateId) acc[activity.templateId] = (acc[activity.templateId] ?? 0) + activity.cost;
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+/**
+ * Sums activity cost per tag. An activity with several tags counts in full
+ * towards each of them, so these don't add up to the day's total.
+ */
+export function computeTagTotals(activities: Activity[]): Record<string, number> {
+  return activities.reduce((acc, activity) => {
+    for (const tag of activity.tags ?? []) acc[tag] = (acc[tag] ?? 0) + activity.cost;
+    return acc;
+  }, {} as Record<string, number>);
+}
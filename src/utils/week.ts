@@ -0,0 +1,61 @@
+import { Activity, Category, CategoryType, UserSettings, Weekday } from '../types';
+import { getDayWindowForDate, overlapsDayWindow } from './time';
+import { computeCategoryTotals } from './totals';
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface DaySummary {
+  date: Date; // local midnight of the calendar day
+  totals: Record<CategoryType, number>;
+  total: number;
+}
+
+export interface WeekSummary {
+  dates: Date[];
+  days: DaySummary[];
+  totals: Record<CategoryType, number>; // each activity counted once, even if it spans two days
+  total: number;
+}
+
+/** The seven calendar dates of the week containing `date`, with the last one falling on `weekEndsOn`. */
+export function getWeekDates(date: Date, weekEndsOn: Weekday = 'sunday'): Date[] {
+  const lastIdx = WEEKDAYS.indexOf(weekEndsOn);
+  const daysUntilEnd = (lastIdx - date.getDay() + 7) % 7;
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + daysUntilEnd);
+  return Array.from({ length: 7 }, (_, i) => new Date(end.getFullYear(), end.getMonth(), end.getDate() - 6 + i));
+}
+
+/** Start of the first day's window to the end of the last day's, for loading a week's activities. */
+export function getWeekRange(dates: Date[], settings: UserSettings): { start: Date; end: Date } {
+  return {
+    start: getDayWindowForDate(dates[0], settings).start,
+    end: getDayWindowForDate(dates[dates.length - 1], settings).end,
+  };
+}
+
+/**
+ * Per-day and whole-week category totals. Days use the same bedtime-to-bedtime
+ * windows as HomeScreen, so a day here matches what Home showed for it.
+ */
+export function summarizeWeek(activities: Activity[], dates: Date[], settings: UserSettings): WeekSummary {
+  const range = getWeekRange(dates, settings);
+  const days = dates.map((date) => {
+    const window = getDayWindowForDate(date, settings);
+    const totals = computeCategoryTotals(activities.filter((a) => overlapsDayWindow(a.startTime, a.endTime, window.start, window.end)));
+    return { date, totals, total: Object.values(totals).reduce((sum, n) => sum + n, 0) };
+  });
+  const totals = computeCategoryTotals(activities.filter((a) => overlapsDayWindow(a.startTime, a.endTime, range.start, range.end)));
+  return { dates, days, totals, total: Object.values(totals).reduce((sum, n) => sum + n, 0) };
+}
+
+/**
+ * How well a day went: time in "more is better" categories counts for it,
+ * time in "less is better" ones against it.
+ */
+export function scoreDay(day: DaySummary, categories: Record<CategoryType, Category>): number {
+  return Object.entries(day.totals).reduce((score, [id, amount]) => {
+    const category = categories[id];
+    if (!category) return score;
+    return score + (category.polarity === 'less' ? -amount : amount);
+  }, 0);
+}
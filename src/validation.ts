@@ -0,0 +1,163 @@
+import { Activity, ActivityTemplate, CalendarImportRule, Category, CategoryType, GoalPeriod, ImportMapping, MultitaskLink, NapTimes, QuickActivity, RunningActivity, SleepRotation, SleepTimes, TemplateBudget, TimeReference, UserSettings } from './types';
+
+// Runtime checks for everything we read back out of storage. AsyncStorage
+// only hands us strings, so nothing guarantees they still match types.ts.
+
+const THEME_MODES: readonly string[] = ['light', 'dark', 'system'];
+const WEEKDAYS: readonly string[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === 'object' && x !== null && !Array.isArray(x);
+}
+
+function isString(x: unknown): x is string {
+  return typeof x === 'string';
+}
+
+function isFiniteNumber(x: unknown): x is number {
+  return typeof x === 'number' && Number.isFinite(x);
+}
+
+function isISODate(x: unknown): x is string {
+  return isString(x) && !Number.isNaN(new Date(x).getTime());
+}
+
+function isHHmm(x: unknown): x is string {
+  return isString(x) && /^\d{1,2}:\d{2}$/.test(x);
+}
+
+export function isCategoryType(x: unknown): x is CategoryType {
+  return isString(x) && x.length > 0;
+}
+
+function isMultitaskLink(x: unknown): x is MultitaskLink {
+  return isObject(x) && isString(x.activityId) && isFiniteNumber(x.share) && x.share >= 0 && x.share <= 1;
+}
+
+export function isRunningActivity(x: unknown): x is RunningActivity {
+  return isObject(x)
+    && isString(x.id)
+    && isString(x.name)
+    && isCategoryType(x.categoryType)
+    && (x.templateId === undefined || isString(x.templateId))
+    && isISODate(x.startTime)
+    && (x.notes === undefined || isString(x.notes))
+    && (x.tags === undefined || (Array.isArray(x.tags) && x.tags.every(isString)))
+    && (x.multitask === undefined || (Array.isArray(x.multitask) && x.multitask.every(isMultitaskLink)))
+    && (x.timeZone === undefined || isString(x.timeZone));
+}
+
+export function isActivity(x: unknown): x is Activity {
+  // Same shape as a running activity, plus the end and cost it gets when stopped
+  return isObject(x)
+    && isISODate(x.endTime)
+    && isFiniteNumber(x.cost)
+    && isRunningActivity(x);
+}
+
+function isGoalPeriod(x: unknown): x is GoalPeriod {
+  return x === 'daily' || x === 'weekly' || x === 'monthly';
+}
+
+function isTemplateBudget(x: unknown): x is TemplateBudget {
+  return isObject(x)
+    && isFiniteNumber(x.amount)
+    && isGoalPeriod(x.period)
+    && (x.polarity === 'more' || x.polarity === 'less');
+}
+
+export function isActivityTemplate(x: unknown): x is ActivityTemplate {
+  return isObject(x)
+    && isString(x.id)
+    && isString(x.name)
+    && isCategoryType(x.categoryType)
+    && (x.archived === undefined || typeof x.archived === 'boolean')
+    && (x.budget === undefined || isTemplateBudget(x.budget));
+}
+
+export function isCategory(x: unknown): x is Category {
+  return isObject(x)
+    && isCategoryType(x.id)
+    && isString(x.name)
+    && isString(x.color)
+    && isFiniteNumber(x.goal)
+    && isGoalPeriod(x.goalPeriod)
+    && (x.polarity === 'more' || x.polarity === 'less')
+    && isFiniteNumber(x.order)
+    && (x.archived === undefined || typeof x.archived === 'boolean');
+}
+
+function isTimeReference(x: unknown): x is TimeReference {
+  if (!isObject(x)) return false;
+  if (x.type === 'bedtime' || x.type === 'wakeTime') return true;
+  return x.type === 'offset' && isFiniteNumber(x.minutes);
+}
+
+function isQuickActivity(x: unknown): x is QuickActivity {
+  return isObject(x)
+    && isString(x.id)
+    && isString(x.templateId)
+    && isTimeReference(x.startTime)
+    && isTimeReference(x.endTime)
+    && typeof x.enabled === 'boolean';
+}
+
+function isCalendarImportRule(x: unknown): x is CalendarImportRule {
+  return isObject(x) && isString(x.id) && isString(x.match) && isString(x.templateId);
+}
+
+function isImportMapping(x: unknown): x is ImportMapping {
+  return isObject(x)
+    && isString(x.id)
+    && (x.source === 'project' || x.source === 'tag')
+    && isString(x.value)
+    && (x.templateId === undefined || isString(x.templateId))
+    && (x.categoryType === undefined || isCategoryType(x.categoryType));
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function isNapTimes(x: unknown): x is NapTimes {
+  return isObject(x) && isHHmm(x.start) && isHHmm(x.end);
+}
+
+function isSleepTimes(x: unknown): x is SleepTimes {
+  return isObject(x)
+    && isHHmm(x.bedtime)
+    && isHHmm(x.wakeTime)
+    && (x.plannedBedtime === undefined || isHHmm(x.plannedBedtime))
+    && (x.naps === undefined || (Array.isArray(x.naps) && x.naps.every(isNapTimes)));
+}
+
+function isSleepRotation(x: unknown): x is SleepRotation {
+  return isObject(x)
+    && isString(x.startDate) && DATE_KEY.test(x.startDate)
+    && Array.isArray(x.days) && x.days.length > 0
+    && x.days.every((d) => d === null || isSleepTimes(d));
+}
+
+export function isUserSettings(x: unknown): x is UserSettings {
+  if (!isObject(x)) return false;
+  if (!isSleepTimes(x)) return false;
+  if (x.weeklySleep !== undefined) {
+    if (!isObject(x.weeklySleep)) return false;
+    if (!Object.entries(x.weeklySleep).every(([day, times]) => WEEKDAYS.includes(day) && isSleepTimes(times))) return false;
+  }
+  if (x.sleepOverrides !== undefined) {
+    if (!isObject(x.sleepOverrides)) return false;
+    if (!Object.entries(x.sleepOverrides).every(([date, times]) => DATE_KEY.test(date) && isSleepTimes(times))) return false;
+  }
+  if (x.sleepRotation !== undefined && !isSleepRotation(x.sleepRotation)) return false;
+  if (x.themeMode !== undefined && !(isString(x.themeMode) && THEME_MODES.includes(x.themeMode))) return false;
+  if (x.weekEndsOn !== undefined && !(isString(x.weekEndsOn) && WEEKDAYS.includes(x.weekEndsOn))) return false;
+  if (x.quickActivities !== undefined) {
+    if (!Array.isArray(x.quickActivities) || !x.quickActivities.every(isQuickActivity)) return false;
+  }
+  if (x.calendarImportRules !== undefined) {
+    if (!Array.isArray(x.calendarImportRules) || !x.calendarImportRules.every(isCalendarImportRule)) return false;
+  }
+  if (x.importMappings !== undefined) {
+    if (!Array.isArray(x.importMappings) || !x.importMappings.every(isImportMapping)) return false;
+  }
+  return true;
+}